@@ -5,6 +5,13 @@ import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract SecondOp_FHE is ZamaEthereumConfig {
     
+    // Who may decrypt a case's diagnosis, chosen at creation:
+    // Private - the case creator only
+    // SpecialistOnly - the creator and assigned specialists, by user decryption
+    // PublicAfterVerification - as SpecialistOnly until an assigned specialist
+    //   approves disclosure, then publicly decryptable and verifiable on-chain
+    enum DisclosurePolicy { Private, SpecialistOnly, PublicAfterVerification }
+    
     struct MedicalCase {
         string patientId;                    
         euint32 encryptedDiagnosis;        
@@ -21,8 +28,23 @@ contract SecondOp_FHE is ZamaEthereumConfig {
     
     string[] public caseIds;
     
+    // Reviewing specialists granted FHE.allow on a case's encrypted diagnosis
+    mapping(string => address[]) private assignedSpecialists;
+    mapping(string => mapping(address => bool)) public isAssignedSpecialist;
+    
+    // Specialists who asked the case creator for access, in request order
+    mapping(string => address[]) private assignmentRequests;
+    mapping(string => mapping(address => bool)) public hasRequestedAssignment;
+    
+    mapping(string => DisclosurePolicy) public disclosurePolicies;
+    // Set once FHE.makePubliclyDecryptable was called for the diagnosis
+    mapping(string => bool) public isDisclosed;
+    
     event MedicalCaseCreated(string indexed caseId, address indexed specialist);
     event DiagnosisVerified(string indexed caseId, uint32 decryptedDiagnosis);
+    event AssignmentRequested(string indexed caseId, address indexed specialist);
+    event SpecialistAssigned(string indexed caseId, address indexed specialist);
+    event DiagnosisDisclosed(string indexed caseId, address indexed specialist);
     
     constructor() ZamaEthereumConfig() {
     }
@@ -33,7 +55,8 @@ contract SecondOp_FHE is ZamaEthereumConfig {
         externalEuint32 encryptedDiagnosis,
         bytes calldata inputProof,
         uint256 caseIdentifier,
-        string calldata medicalHistory
+        string calldata medicalHistory,
+        DisclosurePolicy disclosurePolicy
     ) external {
         require(bytes(medicalCases[caseId].patientId).length == 0, "Medical case already exists");
         
@@ -51,14 +74,61 @@ contract SecondOp_FHE is ZamaEthereumConfig {
         });
         
         FHE.allowThis(medicalCases[caseId].encryptedDiagnosis);
+        FHE.allow(medicalCases[caseId].encryptedDiagnosis, msg.sender);
         
-        FHE.makePubliclyDecryptable(medicalCases[caseId].encryptedDiagnosis);
+        disclosurePolicies[caseId] = disclosurePolicy;
         
         caseIds.push(caseId);
         
         emit MedicalCaseCreated(caseId, msg.sender);
     }
     
+    function requestAssignment(string calldata caseId) external {
+        require(bytes(medicalCases[caseId].patientId).length > 0, "Medical case does not exist");
+        require(disclosurePolicies[caseId] != DisclosurePolicy.Private, "Case is private");
+        require(msg.sender != medicalCases[caseId].specialist, "Case creator already has access");
+        require(!isAssignedSpecialist[caseId][msg.sender], "Specialist already assigned");
+        require(!hasRequestedAssignment[caseId][msg.sender], "Assignment already requested");
+        
+        hasRequestedAssignment[caseId][msg.sender] = true;
+        assignmentRequests[caseId].push(msg.sender);
+        
+        emit AssignmentRequested(caseId, msg.sender);
+    }
+    
+    function assignSpecialists(string calldata caseId, address[] calldata specialists) external {
+        require(bytes(medicalCases[caseId].patientId).length > 0, "Medical case does not exist");
+        require(msg.sender == medicalCases[caseId].specialist, "Only the case creator can assign specialists");
+        require(disclosurePolicies[caseId] != DisclosurePolicy.Private, "Case is private");
+        require(specialists.length > 0, "No specialists to assign");
+        
+        for (uint256 i = 0; i < specialists.length; i++) {
+            address specialist = specialists[i];
+            require(specialist != address(0), "Invalid specialist address");
+            require(specialist != medicalCases[caseId].specialist, "Case creator already has access");
+            require(!isAssignedSpecialist[caseId][specialist], "Specialist already assigned");
+            
+            isAssignedSpecialist[caseId][specialist] = true;
+            assignedSpecialists[caseId].push(specialist);
+            
+            FHE.allow(medicalCases[caseId].encryptedDiagnosis, specialist);
+            
+            emit SpecialistAssigned(caseId, specialist);
+        }
+    }
+    
+    function approveDisclosure(string calldata caseId) external {
+        require(bytes(medicalCases[caseId].patientId).length > 0, "Medical case does not exist");
+        require(disclosurePolicies[caseId] == DisclosurePolicy.PublicAfterVerification, "Case does not allow public disclosure");
+        require(isAssignedSpecialist[caseId][msg.sender], "Only an assigned specialist can approve disclosure");
+        require(!isDisclosed[caseId], "Diagnosis already disclosed");
+        
+        isDisclosed[caseId] = true;
+        FHE.makePubliclyDecryptable(medicalCases[caseId].encryptedDiagnosis);
+        
+        emit DiagnosisDisclosed(caseId, msg.sender);
+    }
+    
     function verifyDiagnosis(
         string calldata caseId, 
         bytes memory abiEncodedClearDiagnosis,
@@ -66,6 +136,7 @@ contract SecondOp_FHE is ZamaEthereumConfig {
     ) external {
         require(bytes(medicalCases[caseId].patientId).length > 0, "Medical case does not exist");
         require(!medicalCases[caseId].isVerified, "Diagnosis already verified");
+        require(isDisclosed[caseId], "Diagnosis is not publicly decryptable");
         
         bytes32[] memory cts = new bytes32[](1);
         cts[0] = FHE.toBytes32(medicalCases[caseId].encryptedDiagnosis);
@@ -108,6 +179,29 @@ contract SecondOp_FHE is ZamaEthereumConfig {
         );
     }
     
+    function getAssignedSpecialists(string calldata caseId) external view returns (address[] memory) {
+        require(bytes(medicalCases[caseId].patientId).length > 0, "Medical case does not exist");
+        return assignedSpecialists[caseId];
+    }
+    
+    // Requests the creator has not granted yet
+    function getPendingAssignmentRequests(string calldata caseId) external view returns (address[] memory) {
+        require(bytes(medicalCases[caseId].patientId).length > 0, "Medical case does not exist");
+        address[] storage requests = assignmentRequests[caseId];
+        
+        uint256 pendingCount = 0;
+        for (uint256 i = 0; i < requests.length; i++) {
+            if (!isAssignedSpecialist[caseId][requests[i]]) pendingCount++;
+        }
+        
+        address[] memory pending = new address[](pendingCount);
+        uint256 index = 0;
+        for (uint256 i = 0; i < requests.length; i++) {
+            if (!isAssignedSpecialist[caseId][requests[i]]) pending[index++] = requests[i];
+        }
+        return pending;
+    }
+    
     function getAllCaseIds() external view returns (string[] memory) {
         return caseIds;
     }
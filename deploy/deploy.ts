@@ -334,12 +334,12 @@ async function main() {
   console.log("Deployer account:", wallet.address);
 
   try {
-    const UniversalFHEAdapterFactory = await hardhatEthers.getContractFactory("UniversalFHEAdapter", wallet);
-    const factory = await UniversalFHEAdapterFactory.deploy();
+    const SecondOpFactory = await hardhatEthers.getContractFactory("SecondOp_FHE", wallet);
+    const factory = await SecondOpFactory.deploy();
     await factory.waitForDeployment();
 
     const deployedAddress = (factory as any).target || (factory as any).address;
-    console.log("UniversalFHEAdapter contract deployed at:", deployedAddress);
+    console.log("SecondOp_FHE contract deployed at:", deployedAddress);
 
     if (fs.existsSync(walletsPath)) {
       const walletsContent = fs.readFileSync(walletsPath, "utf-8");
@@ -369,25 +369,9 @@ async function main() {
       );
       console.log("Wrote frontend config: frontend/web/src/config.json");
 
-      try {
-        const artifactPath = path.join(
-          __dirname,
-          "..",
-          "artifacts",
-          "contracts",
-          "UniversalFHEAdapter.sol",
-          "UniversalFHEAdapter.json"
-        );
-        const targetAbiPath = path.join(frontendConfigDir, "abi");
-        if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-        fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalFHEAdapter.json"));
-        console.log("Copied ABI to frontend/web/src/abi/UniversalFHEAdapter.json");
-      } catch (e) {
-        console.warn(
-          "Failed to copy ABI automatically. Please copy artifacts/.../UniversalFHEAdapter.json manually to frontend/web/src/abi/UniversalFHEAdapter.json",
-          e
-        );
-      }
+      // The frontend talks to the contract through its typechain binding,
+      // which carries the ABI - regenerate it when the contract changes
+      console.log("If SecondOp_FHE's ABI changed, run: npm run typechain:frontend");
     }
   } catch (error) {
     console.error("Deployment failed:", error);
@@ -0,0 +1,39 @@
+/**
+ * React context that initializes FHEVM once and shares it with every hook
+ */
+
+import { createContext, createElement, useContext, useEffect, useRef, ReactNode } from 'react';
+import { getFhevmStore, FhevmStore, FheClientOptions } from '../core/index.js';
+
+export const FhevmContext = createContext<FhevmStore | null>(null);
+
+export interface FhevmProviderProps {
+  /** Options for the FHEVM client - read when (re)initializing */
+  config?: FheClientOptions;
+  /** Defaults to the shared store returned by getFhevmStore() */
+  store?: FhevmStore;
+  children?: ReactNode;
+}
+
+/**
+ * Initializes FHEVM on mount and again when the wallet switches chain or
+ * account. Hooks rendered below share its status.
+ */
+export function FhevmProvider({ config, store, children }: FhevmProviderProps) {
+  const fhevmStore = store ?? getFhevmStore();
+
+  // Later config changes apply on the next reinitialization
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  useEffect(() => fhevmStore.followWallet(configRef.current), [fhevmStore]);
+
+  return createElement(FhevmContext.Provider, { value: fhevmStore }, children);
+}
+
+/**
+ * Store from the nearest FhevmProvider, or the shared one
+ */
+export function useFhevmContextStore(): FhevmStore {
+  return useContext(FhevmContext) ?? getFhevmStore();
+}
@@ -0,0 +1,92 @@
+/**
+ * Contract setup shared by useContract() in the React hooks and the Vue
+ * composables - framework-free, so neither entry point loads the other
+ */
+
+import { ethers } from 'ethers';
+import { FhevmWalletState } from '../core/index.js';
+
+/**
+ * Static side of a typechain factory, e.g. SecondOp_FHE__factory
+ */
+export interface TypedContractFactory<T> {
+  connect(address: string, runner?: ethers.ContractRunner | null): T;
+}
+
+export interface UseContractOptions {
+  /**
+   * 'auto' (default) connects the wallet's signer when one is connected and
+   * falls back to read-only; 'read' never asks for a signer
+   */
+  mode?: 'auto' | 'read';
+  /** Read-only runner used instead of the injected wallet's provider */
+  provider?: ethers.Provider;
+}
+
+export interface UseContractResult<T> {
+  contract: T | null;
+  /** True when contract can send transactions */
+  isSigner: boolean;
+  isReady: boolean;
+  error: string;
+}
+
+export function isFactory<T>(source: TypedContractFactory<T> | ethers.InterfaceAbi): source is TypedContractFactory<T> {
+  return typeof (source as any)?.connect === 'function';
+}
+
+/**
+ * Account whose signer the contract is connected with - '' for read-only
+ */
+export function contractSignerAddress(wallet: FhevmWalletState, options: UseContractOptions): string {
+  const mode = options.mode ?? 'auto';
+  return mode === 'auto' && wallet.isConnected ? wallet.address : '';
+}
+
+/**
+ * Connect `source` at `address` with the signer of `signerAddress`, or
+ * read-only when it is empty. Changes are reported through `update`, which
+ * only receives the fields that changed. Returns a function that drops a
+ * setup still in flight.
+ */
+export function connectContract<T>(
+  address: string | undefined,
+  source: TypedContractFactory<T> | ethers.InterfaceAbi | undefined,
+  signerAddress: string,
+  provider: ethers.Provider | undefined,
+  update: (patch: Partial<UseContractResult<T | ethers.Contract>>) => void
+): () => void {
+  const ethereum = typeof window !== 'undefined' ? window.ethereum : undefined;
+  if (!address || !source || (!provider && !ethereum)) {
+    update({ contract: null, isSigner: false, isReady: false });
+    return () => {};
+  }
+
+  let cancelled = false;
+  const connect = (runner: ethers.ContractRunner) =>
+    isFactory(source) ? source.connect(address, runner) : new ethers.Contract(address, source, runner);
+
+  const setup = async () => {
+    try {
+      // BrowserProvider is bound to one chain, so it is rebuilt on every switch
+      const browserProvider = ethereum ? new ethers.BrowserProvider(ethereum) : null;
+      const readRunner = provider ?? browserProvider!;
+
+      let runner: ethers.ContractRunner = readRunner;
+      if (signerAddress && browserProvider) {
+        runner = await browserProvider.getSigner(signerAddress);
+      }
+      if (cancelled) return;
+
+      update({ contract: connect(runner), isSigner: runner !== readRunner, isReady: true, error: '' });
+    } catch (err) {
+      if (cancelled) return;
+      update({ error: err instanceof Error ? err.message : 'Contract setup failed', isReady: false });
+    }
+  };
+
+  setup();
+  return () => {
+    cancelled = true;
+  };
+}
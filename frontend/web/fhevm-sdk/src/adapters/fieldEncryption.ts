@@ -0,0 +1,101 @@
+/**
+ * Encryption shared by useEncrypt() in the React hooks and the Vue
+ * composables - framework-free, so neither entry point loads the other
+ */
+
+import {
+  FhevmStore,
+  toFhevmError,
+  getErrorCode,
+  FhevmErrorCode,
+  FheFieldMap,
+  EncryptedFields,
+  EncryptionStage,
+  OperationAbortedError,
+} from '../core/index.js';
+
+export type EncryptStage = 'idle' | EncryptionStage | 'done' | 'error' | 'cancelled';
+
+export interface EncryptUpdate {
+  stage?: EncryptStage;
+  error?: string;
+  errorCode?: FhevmErrorCode | '';
+}
+
+function failure(err: unknown) {
+  const fhevmError = toFhevmError(err);
+  return {
+    fhevmError,
+    error: fhevmError instanceof Error ? fhevmError.message : 'Encryption failed',
+    errorCode: getErrorCode(fhevmError),
+  };
+}
+
+/**
+ * Encrypt one value as the store's client, reporting errors through `update`
+ */
+export async function encryptValue(
+  store: FhevmStore,
+  contractAddress: string,
+  userAddress: string,
+  value: number,
+  update: (patch: EncryptUpdate) => void
+) {
+  update({ error: '', errorCode: '' });
+
+  try {
+    return await store.track(
+      'encrypt',
+      () => store.getClient().createEncryptedInput(contractAddress, userAddress, value),
+      contractAddress
+    );
+  } catch (err) {
+    const { fhevmError, error, errorCode } = failure(err);
+    update({ error, errorCode });
+    throw fhevmError;
+  }
+}
+
+/**
+ * Encrypt a typed field map under one inputProof, reporting stage progress
+ * through `update`. Waits for the initialization in flight, and any that
+ * replaces it, first - the keys arrive with the instance. Aborting `signal`
+ * ends it as 'cancelled'.
+ */
+export async function encryptFieldsInStages<F extends FheFieldMap>(
+  store: FhevmStore,
+  contractAddress: string,
+  userAddress: string,
+  fields: F,
+  signal: AbortSignal,
+  update: (patch: EncryptUpdate) => void
+): Promise<EncryptedFields<F>> {
+  update({ error: '', errorCode: '', stage: 'loading-keys' });
+
+  try {
+    while (store.getSnapshot().status === 'loading' && !signal.aborted) await store.whenSettled();
+    if (signal.aborted) throw new OperationAbortedError();
+
+    const result = await store.track(
+      'encrypt',
+      () => store.getClient().encryptFields(contractAddress, userAddress, fields, {
+        signal,
+        onStage: next => {
+          if (!signal.aborted) update({ stage: next });
+        },
+      }),
+      contractAddress
+    );
+
+    update({ stage: 'done' });
+    return result;
+  } catch (err) {
+    const { fhevmError, error, errorCode } = failure(err);
+    if (fhevmError instanceof OperationAbortedError) {
+      update({ stage: 'cancelled' });
+    } else {
+      update({ stage: 'error', error, errorCode });
+    }
+    throw fhevmError;
+  }
+}
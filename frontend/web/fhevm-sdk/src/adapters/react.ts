@@ -9,7 +9,17 @@
 export { useWallet } from './useWallet.js';
 export { useFhevm } from './useFhevm.js';
 export { useContract } from './useContract.js';
+export type { TypedContractFactory, UseContractOptions, UseContractResult } from './useContract.js';
 export { useDecrypt } from './useDecrypt.js';
 export { useEncrypt } from './useEncrypt.js';
+export type { EncryptStage } from './useEncrypt.js';
+export { useUserDecrypt, clearUserDecryptCache } from './useUserDecrypt.js';
+export type { UserDecryptEntry, UseUserDecryptOptions } from './useUserDecrypt.js';
+export { useFhevmTransaction } from './useFhevmTransaction.js';
+export type { TransactionStatus, TransactionReplacement, UseFhevmTransactionOptions } from './useFhevmTransaction.js';
+export { useFhevmStore } from './useFhevmStore.js';
+export { FhevmProvider, FhevmContext } from './FhevmProvider.js';
+export type { FhevmProviderProps } from './FhevmProvider.js';
+export { useFhevmInstance } from './useFhevmInstance.js';
 
 
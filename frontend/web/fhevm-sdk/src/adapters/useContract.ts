@@ -2,34 +2,62 @@
  * Wagmi-like hook for contract interactions
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { ethers } from 'ethers';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContextStore } from './FhevmProvider.js';
+import {
+  TypedContractFactory,
+  UseContractOptions,
+  UseContractResult,
+  isFactory,
+  contractSignerAddress,
+  connectContract,
+} from './contractConnection.js';
 
-export function useContract(address: string, abi: any[]) {
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<string>('');
-
-  useEffect(() => {
-    if (!window.ethereum || !address || !abi) return;
-
-    try {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const contractInstance = new ethers.Contract(address, abi, provider);
-      setContract(contractInstance);
-      setIsReady(true);
-      setError('');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Contract setup failed');
-      setIsReady(false);
-    }
-  }, [address, abi]);
-
-  return {
-    contract,
-    isReady,
-    error,
-  };
-}
+export type { TypedContractFactory, UseContractOptions, UseContractResult } from './contractConnection.js';
+
+export function useContract<T>(
+  address: string | undefined,
+  factory: TypedContractFactory<T>,
+  options?: UseContractOptions
+): UseContractResult<T>;
+export function useContract(
+  address: string | undefined,
+  abi: ethers.InterfaceAbi,
+  options?: UseContractOptions
+): UseContractResult<ethers.Contract>;
+export function useContract<T>(
+  address: string | undefined,
+  source: TypedContractFactory<T> | ethers.InterfaceAbi,
+  options: UseContractOptions = {}
+): UseContractResult<T | ethers.Contract> {
+  const store = useFhevmContextStore();
+  const { wallet, chainId } = useFhevmStore();
+  const [result, setResult] = useState<UseContractResult<T | ethers.Contract>>({
+    contract: null,
+    isSigner: false,
+    isReady: false,
+    error: '',
+  });
+
+  // Factories are stable module values; inline ABI arrays are compared by content
+  const sourceRef = useRef(source);
+  sourceRef.current = source;
+  const sourceKey = isFactory(source) ? source : JSON.stringify(source);
 
+  // Wallet state drives the signer switch
+  useEffect(() => store.watchWallet(), [store]);
 
+  const provider = options.provider;
+  const signerAddress = contractSignerAddress(wallet, options);
+
+  useEffect(
+    () => connectContract(address, sourceRef.current, signerAddress, provider, patch => {
+      setResult(current => ({ ...current, ...patch }));
+    }),
+    [address, sourceKey, provider, signerAddress, chainId]
+  );
+
+  return result;
+}
@@ -3,46 +3,53 @@
  */
 
 import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { trackTransaction, toFhevmError, getErrorCode, FhevmErrorCode } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContextStore } from './FhevmProvider.js';
 
 export function useDecrypt() {
-  const [isDecrypting, setIsDecrypting] = useState(false);
+  const store = useFhevmContextStore();
+  const { pending } = useFhevmStore();
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | ''>('');
 
   const verifyDecryption = useCallback(async (
     handles: string[], 
     contractAddress: string, 
     verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
   ) => {
-    setIsDecrypting(true);
     setError('');
+    setErrorCode('');
     
     try {
-      const decryptionResult = await publicDecryptV09(handles);
-      
-      const tx = await verifyFunction(
-        decryptionResult.abiEncodedClearValues,
-        decryptionResult.decryptionProof
-      );
-      
-      const receipt = await tx.wait();
-      
-      return {
-        decryptionResult,
-        transactionReceipt: receipt
-      };
+      return await store.track('decrypt', async () => {
+        const decryptionResult = await store.getClient().publicDecryptV09(handles);
+        
+        const tx = await verifyFunction(
+          decryptionResult.abiEncodedClearValues,
+          decryptionResult.decryptionProof
+        );
+        
+        const { receipt } = await trackTransaction(tx);
+        
+        return {
+          decryptionResult,
+          transactionReceipt: receipt
+        };
+      }, contractAddress);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
-    } finally {
-      setIsDecrypting(false);
+      const fhevmError = toFhevmError(err);
+      setError(fhevmError instanceof Error ? fhevmError.message : 'Decryption verification failed');
+      setErrorCode(getErrorCode(fhevmError));
+      throw fhevmError;
     }
-  }, []);
+  }, [store]);
 
   return {
     verifyDecryption,
-    isDecrypting,
+    isDecrypting: pending.some(op => op.kind === 'decrypt'),
     error,
+    errorCode,
   };
 }
 
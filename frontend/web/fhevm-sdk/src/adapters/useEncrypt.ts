@@ -2,33 +2,68 @@
  * Wagmi-like hook for encryption operations
  */
 
-import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { FhevmErrorCode, FheFieldMap, EncryptedFields } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContextStore } from './FhevmProvider.js';
+import { EncryptStage, EncryptUpdate, encryptValue, encryptFieldsInStages } from './fieldEncryption.js';
+
+export type { EncryptStage } from './fieldEncryption.js';
 
 export function useEncrypt() {
-  const [isEncrypting, setIsEncrypting] = useState(false);
+  const store = useFhevmContextStore();
+  const { pending } = useFhevmStore();
   const [error, setError] = useState<string>('');
+  const [errorCode, setErrorCode] = useState<FhevmErrorCode | ''>('');
+  const [stage, setStage] = useState<EncryptStage>('idle');
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // A closed form must not keep proving in the background
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const update = useCallback((patch: EncryptUpdate) => {
+    if (patch.stage !== undefined) setStage(patch.stage);
+    if (patch.error !== undefined) setError(patch.error);
+    if (patch.errorCode !== undefined) setErrorCode(patch.errorCode);
+  }, []);
+
+  const encrypt = useCallback(
+    (contractAddress: string, userAddress: string, value: number) =>
+      encryptValue(store, contractAddress, userAddress, value, update),
+    [store, update]
+  );
+
+  /**
+   * Encrypt a typed field map under one inputProof, reporting stage
+   * progress. A new call or cancel() aborts the one in flight.
+   */
+  const encryptFields = useCallback(async <F extends FheFieldMap>(
+    contractAddress: string,
+    userAddress: string,
+    fields: F
+  ): Promise<EncryptedFields<F>> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
-    setIsEncrypting(true);
-    setError('');
-    
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
-      return result;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+      return await encryptFieldsInStages(store, contractAddress, userAddress, fields, controller.signal, update);
     } finally {
-      setIsEncrypting(false);
+      if (controllerRef.current === controller) controllerRef.current = null;
     }
+  }, [store, update]);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
   }, []);
 
   return {
     encrypt,
-    isEncrypting,
+    encryptFields,
+    cancel,
+    stage,
+    isEncrypting: pending.some(op => op.kind === 'encrypt'),
     error,
+    errorCode,
   };
 }
-
-
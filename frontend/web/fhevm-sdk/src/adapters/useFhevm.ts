@@ -2,37 +2,46 @@
  * Wagmi-like hook for FHEVM instance
  */
 
-import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { useCallback, useEffect, useRef } from 'react';
+import { FheClientOptions } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContextStore } from './FhevmProvider.js';
 
-export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
-  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
-  const [error, setError] = useState<string>('');
+/**
+ * With options, the hook initializes on mount and re-creates the instance
+ * whenever the wallet switches chain or account (status 'unsupported-chain'
+ * when the new chain has no FHEVM deployment). Without options it only
+ * reads the shared state - use it under an FhevmProvider or call initialize().
+ */
+export function useFhevm(options?: FheClientOptions) {
+  const store = useFhevmContextStore();
+  const { instance, status, network, error, errorCode } = useFhevmStore();
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Re-follow only when the target network or mode changes, not on every render
+  const followKey = options
+    ? JSON.stringify({ mode: options.mode, network: options.network, rpcUrl: options.rpcUrl })
+    : null;
 
-  const initialize = useCallback(async () => {
-    setStatus('loading');
-    setError('');
-    
-    try {
-      const fheInstance = await initializeFheInstance();
-      setInstance(fheInstance);
-      setStatus('ready');
-      console.log('✅ FHEVM initialized');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-      setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
-    }
-  }, []);
+  useEffect(() => {
+    if (followKey === null) return;
+    return store.followWallet(optionsRef.current);
+  }, [store, followKey]);
+
+  const initialize = useCallback(async (initializeOptions?: FheClientOptions) => {
+    await store.initialize(initializeOptions ?? optionsRef.current);
+  }, [store]);
 
   return {
     instance,
     status,
+    network,
     error,
+    errorCode,
     initialize,
     isInitialized: status === 'ready',
+    isUnsupportedChain: status === 'unsupported-chain',
   };
 }
-
-
@@ -0,0 +1,37 @@
+/**
+ * Suspense-ready access to the FHEVM instance of the nearest FhevmProvider
+ */
+
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContextStore } from './FhevmProvider.js';
+import { FhevmError, FhevmStore, UnsupportedChainError } from '../core/index.js';
+
+/**
+ * Promise to suspend on while the store is idle. An FhevmProvider or
+ * useFhevm(options) starts initialization from an effect; when none has
+ * once the commit is done, initialize with the default options so the
+ * component does not stay suspended forever. A later configured
+ * initialization still supersedes this one.
+ */
+function startIfIdle(store: FhevmStore): Promise<void> {
+  return new Promise<void>(resolve => setTimeout(resolve, 0)).then(() => {
+    if (store.getSnapshot().status === 'idle') void store.initialize();
+    return store.whenSettled();
+  });
+}
+
+/**
+ * Returns the ready instance. Suspends while it is initializing and throws
+ * the initialization error to the nearest error boundary.
+ */
+export function useFhevmInstance() {
+  const store = useFhevmContextStore();
+  const { status, instance, chainId, error, errorCode } = useFhevmStore();
+
+  if (status === 'ready') return instance;
+  if (status === 'unsupported-chain') throw new UnsupportedChainError(chainId);
+  if (status === 'error') {
+    throw errorCode ? new FhevmError(errorCode, error) : new Error(error);
+  }
+  throw status === 'idle' ? startIfIdle(store) : store.whenSettled();
+}
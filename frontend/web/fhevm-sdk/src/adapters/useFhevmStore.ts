@@ -0,0 +1,12 @@
+/**
+ * React binding for the framework-free FHEVM store
+ */
+
+import { useSyncExternalStore } from 'react';
+import { FhevmState } from '../core/index.js';
+import { useFhevmContextStore } from './FhevmProvider.js';
+
+export function useFhevmStore(): FhevmState {
+  const store = useFhevmContextStore();
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+}
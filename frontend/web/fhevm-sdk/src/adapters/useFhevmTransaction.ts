@@ -0,0 +1,140 @@
+/**
+ * Wagmi-like hook for the lifecycle of a contract write - submitted, mined,
+ * confirmed N times, reverted or replaced
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { ethers } from 'ethers';
+import {
+  submitTransaction,
+  toFhevmError,
+  getErrorCode,
+  FhevmErrorCode,
+  TransactionFailedError,
+  TransactionListener,
+  TransactionEvent,
+  TransactionReplacementReason,
+  TransactionResult,
+} from '../core/index.js';
+import { useFhevmContextStore } from './FhevmProvider.js';
+
+export type TransactionStatus = 'idle' | 'submitting' | 'submitted' | 'mined' | 'confirmed' | 'reverted' | 'failed';
+
+export interface TransactionReplacement {
+  hash: string;
+  replacementHash: string;
+  reason: TransactionReplacementReason;
+}
+
+export interface UseFhevmTransactionOptions {
+  /** Blocks to wait for before 'confirmed' - defaults to 1 */
+  confirmations?: number;
+  /** Interface used to decode custom errors - usually `contract.interface` */
+  contractInterface?: ethers.Interface;
+  /** Every lifecycle event of every send, e.g. for toasts or analytics */
+  onEvent?: TransactionListener;
+}
+
+interface TransactionState {
+  status: TransactionStatus;
+  hash: string;
+  confirmations: number;
+  receipt: ethers.TransactionReceipt | null;
+  replacement: TransactionReplacement | null;
+  revertReason: string;
+  error: string;
+  errorCode: FhevmErrorCode | '';
+}
+
+const IDLE_STATE: TransactionState = {
+  status: 'idle',
+  hash: '',
+  confirmations: 0,
+  receipt: null,
+  replacement: null,
+  revertReason: '',
+  error: '',
+  errorCode: '',
+};
+
+function applyEvent(state: TransactionState, event: TransactionEvent): TransactionState {
+  switch (event.type) {
+    case 'submitted':
+      return { ...state, status: 'submitted', hash: event.hash };
+    case 'replaced':
+      return {
+        ...state,
+        hash: event.reason === 'repriced' ? event.replacementHash : state.hash,
+        replacement: { hash: event.hash, replacementHash: event.replacementHash, reason: event.reason },
+      };
+    case 'mined':
+      return { ...state, status: 'mined', hash: event.hash, receipt: event.receipt };
+    case 'confirmation':
+      return { ...state, confirmations: event.confirmations };
+    case 'confirmed':
+      return { ...state, status: 'confirmed', receipt: event.receipt, confirmations: event.confirmations };
+    case 'reverted':
+      return { ...state, status: 'reverted', receipt: event.receipt, revertReason: event.revertReason ?? '' };
+    case 'failed': {
+      const fhevmError = toFhevmError(event.error);
+      return {
+        ...state,
+        // A revert has already been reported with its receipt
+        status: state.status === 'reverted' ? 'reverted' : 'failed',
+        revertReason: state.revertReason || (fhevmError instanceof TransactionFailedError ? fhevmError.revertReason ?? '' : ''),
+        error: fhevmError instanceof Error ? fhevmError.message : 'Transaction failed',
+        errorCode: getErrorCode(fhevmError),
+      };
+    }
+  }
+}
+
+export function useFhevmTransaction(options: UseFhevmTransactionOptions = {}) {
+  const store = useFhevmContextStore();
+  const [state, setState] = useState<TransactionState>(IDLE_STATE);
+
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Events of a superseded send are dropped
+  const requestRef = useRef(0);
+
+  /**
+   * Send a transaction and follow it, e.g.
+   * `send(() => contract.createMedicalCase(id, handle, proof))`
+   */
+  const send = useCallback(async (
+    submit: () => Promise<ethers.TransactionResponse>,
+    label?: string
+  ): Promise<TransactionResult> => {
+    const request = ++requestRef.current;
+    const { confirmations, contractInterface } = optionsRef.current;
+    setState({ ...IDLE_STATE, status: 'submitting' });
+
+    return store.track(
+      'transaction',
+      () => submitTransaction(submit, {
+        confirmations,
+        contractInterface,
+        onEvent: event => {
+          if (request === requestRef.current) setState(current => applyEvent(current, event));
+          optionsRef.current.onEvent?.(event);
+        },
+      }),
+      label
+    );
+  }, [store]);
+
+  const reset = useCallback(() => {
+    requestRef.current++;
+    setState(IDLE_STATE);
+  }, []);
+
+  return {
+    send,
+    reset,
+    ...state,
+    isPending: state.status === 'submitting' || state.status === 'submitted' || state.status === 'mined',
+    isConfirmed: state.status === 'confirmed',
+  };
+}
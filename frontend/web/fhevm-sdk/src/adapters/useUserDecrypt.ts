@@ -0,0 +1,70 @@
+/**
+ * Wagmi-like hook for private EIP-712 user decryption - values stay in the
+ * browser, nothing is published or written on-chain
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ethers } from 'ethers';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContextStore } from './FhevmProvider.js';
+import { UserDecryptEntry, decryptForUser, summarizeUserDecryption } from './userDecryption.js';
+
+export { clearUserDecryptCache } from './userDecryption.js';
+export type { UserDecryptEntry } from './userDecryption.js';
+
+export interface UseUserDecryptOptions {
+  /** Signer for the EIP-712 request - defaults to the injected wallet's */
+  signer?: ethers.Signer;
+  /** Decrypt as soon as the instance and wallet are ready - defaults to true */
+  enabled?: boolean;
+}
+
+export function useUserDecrypt(
+  handles: string[],
+  contractAddress: string | undefined,
+  options: UseUserDecryptOptions = {}
+) {
+  const store = useFhevmContextStore();
+  const { status, wallet, chainId } = useFhevmStore();
+  const [results, setResults] = useState<Record<string, UserDecryptEntry>>({});
+
+  // Wallet state gates the automatic decryption
+  useEffect(() => store.watchWallet(), [store]);
+
+  const enabled = options.enabled ?? true;
+  const signerRef = useRef(options.signer);
+  signerRef.current = options.signer;
+
+  const handlesKey = handles.join(',');
+  const handlesRef = useRef(handles);
+  handlesRef.current = handles;
+
+  // Results of a superseded request are dropped
+  const requestRef = useRef(0);
+
+  const decrypt = useCallback(async () => {
+    if (!contractAddress || handlesRef.current.length === 0) return;
+    const request = ++requestRef.current;
+
+    await decryptForUser(store, handlesRef.current, contractAddress, signerRef.current, patch => {
+      if (request === requestRef.current) setResults(previous => ({ ...previous, ...patch }));
+    });
+  }, [store, contractAddress, handlesKey]);
+
+  // Start over when the handles, contract or wallet change
+  useEffect(() => {
+    setResults({});
+  }, [handlesKey, contractAddress, wallet.address, chainId]);
+
+  useEffect(() => {
+    if (!enabled || status !== 'ready') return;
+    if (!options.signer && !wallet.isConnected) return;
+    decrypt();
+  }, [decrypt, enabled, status, wallet.isConnected, wallet.address, chainId]);
+
+  return {
+    results,
+    decrypt,
+    ...summarizeUserDecryption(results),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Private EIP-712 user decryption shared by the React hooks and the Vue
+ * composables - framework-free, so neither entry point loads the other
+ */
+
+import { ethers } from 'ethers';
+import {
+  FhevmStore,
+  toFhevmError,
+  getErrorCode,
+  ClearValue,
+  FhevmErrorCode,
+  InvalidConfigError,
+} from '../core/index.js';
+
+export interface UserDecryptEntry {
+  status: 'idle' | 'loading' | 'success' | 'error';
+  value?: ClearValue;
+  error?: string;
+  errorCode?: FhevmErrorCode | '';
+}
+
+// Cleartexts per chain, user, contract and handle - shared by every component
+const decryptedCache = new Map<string, ClearValue>();
+
+function cacheKey(chainId: number, userAddress: string, contractAddress: string, handle: string) {
+  return `${chainId}:${userAddress}:${contractAddress}:${handle}`.toLowerCase();
+}
+
+/**
+ * Forget every cached cleartext (e.g. on logout)
+ */
+export function clearUserDecryptCache() {
+  decryptedCache.clear();
+}
+
+/**
+ * Decrypt `handles` for the signer (default: the injected wallet's), taking
+ * cached cleartexts first. Progress and results are reported per handle
+ * through `update`; errors end up there too instead of being thrown.
+ */
+export async function decryptForUser(
+  store: FhevmStore,
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer | undefined,
+  update: (patch: Record<string, UserDecryptEntry>) => void
+) {
+  const targets = [...new Set(handles)];
+
+  // Handles an error is reported for
+  let pending = targets;
+
+  try {
+    if (!signer) {
+      if (typeof window === 'undefined' || !window.ethereum) {
+        throw new InvalidConfigError('No signer available. Connect a wallet or pass options.signer.');
+      }
+      signer = await new ethers.BrowserProvider(window.ethereum).getSigner();
+    }
+    const userAddress = await signer.getAddress();
+    const network = await signer.provider?.getNetwork();
+    const keyFor = (handle: string) => cacheKey(Number(network?.chainId ?? 0), userAddress, contractAddress, handle);
+
+    const cached: Record<string, UserDecryptEntry> = {};
+    pending = [];
+    for (const handle of targets) {
+      if (decryptedCache.has(keyFor(handle))) {
+        cached[handle] = { status: 'success', value: decryptedCache.get(keyFor(handle)) };
+      } else {
+        pending.push(handle);
+      }
+    }
+
+    update({
+      ...cached,
+      ...Object.fromEntries(pending.map(handle => [handle, { status: 'loading' } as UserDecryptEntry])),
+    });
+    if (pending.length === 0) return;
+
+    const values = await store.track(
+      'decrypt',
+      () => store.getClient().batchDecryptValues(pending, contractAddress, signer),
+      contractAddress
+    );
+
+    const decrypted: Record<string, UserDecryptEntry> = {};
+    for (const handle of pending) {
+      decryptedCache.set(keyFor(handle), values[handle]);
+      decrypted[handle] = { status: 'success', value: values[handle] };
+    }
+    update(decrypted);
+  } catch (err) {
+    const fhevmError = toFhevmError(err);
+    const entry: UserDecryptEntry = {
+      status: 'error',
+      error: fhevmError instanceof Error ? fhevmError.message : 'Decryption failed',
+      errorCode: getErrorCode(fhevmError),
+    };
+    update(Object.fromEntries(pending.map(handle => [handle, entry])));
+  }
+}
+
+/**
+ * Successful cleartexts by handle and the first error, from per-handle entries
+ */
+export function summarizeUserDecryption(results: Record<string, UserDecryptEntry>) {
+  const values: Record<string, ClearValue> = {};
+  for (const [handle, entry] of Object.entries(results)) {
+    if (entry.status === 'success') values[handle] = entry.value!;
+  }
+  const firstError = Object.values(results).find(entry => entry.status === 'error');
+
+  return {
+    values,
+    isDecrypting: Object.values(results).some(entry => entry.status === 'loading'),
+    error: firstError?.error ?? '',
+    errorCode: firstError?.errorCode ?? ('' as FhevmErrorCode | ''),
+  };
+}
@@ -0,0 +1,401 @@
+/**
+ * Vue Adapter - Universal FHEVM SDK
+ * Vue 3 composables with the same semantics as the React hooks: built on the
+ * same FhevmStore, same state and actions, exposed as reactive refs
+ */
+
+import {
+  ref,
+  shallowRef,
+  computed,
+  watch,
+  unref,
+  inject,
+  provide,
+  getCurrentInstance,
+  getCurrentScope,
+  onScopeDispose,
+  InjectionKey,
+  MaybeRef,
+  Ref,
+  ShallowRef,
+} from 'vue';
+import { ethers } from 'ethers';
+import {
+  getFhevmStore,
+  trackTransaction,
+  toFhevmError,
+  getErrorCode,
+  EncryptedFields,
+  FhevmErrorCode,
+  FhevmState,
+  FhevmStore,
+  FheClientOptions,
+  FheFieldMap,
+} from '../core/index.js';
+import { UserDecryptEntry, decryptForUser, summarizeUserDecryption } from './userDecryption.js';
+import {
+  TypedContractFactory,
+  UseContractOptions,
+  UseContractResult,
+  contractSignerAddress,
+  connectContract,
+} from './contractConnection.js';
+import { EncryptStage, EncryptUpdate, encryptValue, encryptFieldsInStages } from './fieldEncryption.js';
+
+export { clearUserDecryptCache } from './userDecryption.js';
+export type { UserDecryptEntry } from './userDecryption.js';
+export type { TypedContractFactory, UseContractOptions } from './contractConnection.js';
+export type { EncryptStage } from './fieldEncryption.js';
+
+/**
+ * Injection key for the store the composables read - set by provideFhevm()
+ * or app.provide(FHEVM_STORE_KEY, store)
+ */
+export const FHEVM_STORE_KEY: InjectionKey<FhevmStore> = Symbol('fhevm-store');
+
+export interface ProvideFhevmOptions {
+  /** Options for the FHEVM client - read when (re)initializing */
+  config?: FheClientOptions;
+  /** Defaults to the shared store returned by getFhevmStore() */
+  store?: FhevmStore;
+}
+
+// Cleanups run with the component or effectScope the composable was called in
+function onScope(cleanup: () => void) {
+  if (getCurrentScope()) onScopeDispose(cleanup);
+}
+
+/**
+ * Store provided by an ancestor, or the shared one
+ */
+function injectStore(): FhevmStore {
+  const shared = getFhevmStore();
+  return getCurrentInstance() ? inject(FHEVM_STORE_KEY, shared) : shared;
+}
+
+function snapshotOf(store: FhevmStore): Readonly<ShallowRef<FhevmState>> {
+  // shallowRef: deep proxies break the relayer instance's private state
+  const state = shallowRef(store.getSnapshot());
+  onScope(store.subscribe(() => {
+    state.value = store.getSnapshot();
+  }));
+  return state;
+}
+
+/**
+ * Initializes FHEVM and again when the wallet switches chain or account,
+ * and shares the store with every composable below - mirrors FhevmProvider
+ */
+export function provideFhevm(options: ProvideFhevmOptions = {}): FhevmStore {
+  const store = options.store ?? getFhevmStore();
+  provide(FHEVM_STORE_KEY, store);
+  onScope(store.followWallet(options.config));
+  return store;
+}
+
+/**
+ * Store snapshot as a ref - mirrors useFhevmStore() from the React adapter
+ */
+export function useFhevmStore(): Readonly<ShallowRef<FhevmState>> {
+  return snapshotOf(injectStore());
+}
+
+/**
+ * Wallet connection - mirrors useWallet() from the React adapter
+ */
+export function useWallet() {
+  const store = injectStore();
+  const state = snapshotOf(store);
+
+  // Listen for chain and account changes
+  onScope(store.watchWallet());
+
+  return {
+    address: computed(() => state.value.wallet.address),
+    isConnected: computed(() => state.value.wallet.isConnected),
+    chainId: computed(() => state.value.chainId),
+    isConnecting: computed(() => state.value.wallet.isConnecting),
+    error: computed(() => state.value.wallet.error),
+    connect: () => store.connectWallet(),
+    disconnect: () => store.disconnectWallet(),
+  };
+}
+
+/**
+ * FHEVM instance - mirrors useFhevm() from the React adapter. With options
+ * it initializes and follows the wallet's chain and account for the
+ * lifetime of the calling scope.
+ */
+export function useFhevm(options?: FheClientOptions) {
+  const store = injectStore();
+  const state = snapshotOf(store);
+
+  if (options) onScope(store.followWallet(options));
+
+  const initialize = async (initializeOptions?: FheClientOptions) => {
+    await store.initialize(initializeOptions ?? options);
+  };
+
+  return {
+    instance: computed(() => state.value.instance),
+    status: computed(() => state.value.status),
+    network: computed(() => state.value.network),
+    error: computed(() => state.value.error),
+    errorCode: computed(() => state.value.errorCode),
+    initialize,
+    isInitialized: computed(() => state.value.status === 'ready'),
+    isUnsupportedChain: computed(() => state.value.status === 'unsupported-chain'),
+  };
+}
+
+export interface UseContractRefs<T> {
+  contract: Readonly<ShallowRef<T | null>>;
+  /** True when contract can send transactions */
+  isSigner: Readonly<Ref<boolean>>;
+  isReady: Readonly<Ref<boolean>>;
+  error: Readonly<Ref<string>>;
+}
+
+/**
+ * Contract on the wallet's signer, or read-only - mirrors useContract() from
+ * the React adapter. Address and factory/ABI may be refs; the contract
+ * follows them, the connected account and the chain.
+ */
+export function useContract<T>(
+  address: MaybeRef<string | undefined>,
+  factory: MaybeRef<TypedContractFactory<T>>,
+  options?: UseContractOptions
+): UseContractRefs<T>;
+export function useContract(
+  address: MaybeRef<string | undefined>,
+  abi: MaybeRef<ethers.InterfaceAbi>,
+  options?: UseContractOptions
+): UseContractRefs<ethers.Contract>;
+export function useContract<T>(
+  address: MaybeRef<string | undefined>,
+  source: MaybeRef<TypedContractFactory<T> | ethers.InterfaceAbi>,
+  options: UseContractOptions = {}
+): UseContractRefs<T | ethers.Contract> {
+  const store = injectStore();
+  const state = snapshotOf(store);
+  const contract = shallowRef<T | ethers.Contract | null>(null);
+  const isSigner = ref(false);
+  const isReady = ref(false);
+  const error = ref<string>('');
+
+  // Wallet state drives the signer switch
+  onScope(store.watchWallet());
+
+  const provider = options.provider;
+  const signerAddress = computed(() => contractSignerAddress(state.value.wallet, options));
+
+  const apply = (patch: Partial<UseContractResult<T | ethers.Contract>>) => {
+    if (patch.contract !== undefined) contract.value = patch.contract;
+    if (patch.isSigner !== undefined) isSigner.value = patch.isSigner;
+    if (patch.isReady !== undefined) isReady.value = patch.isReady;
+    if (patch.error !== undefined) error.value = patch.error;
+  };
+
+  // Sources are compared one by one - unrelated store changes do not rebuild it
+  watch(
+    [() => unref(address), () => unref(source), signerAddress, () => state.value.chainId],
+    ([currentAddress, current, currentSigner], _previous, onCleanup) => {
+      onCleanup(connectContract(currentAddress, current, currentSigner, provider, apply));
+    },
+    { immediate: true }
+  );
+
+  return {
+    contract,
+    isSigner,
+    isReady,
+    error,
+  };
+}
+
+/**
+ * Encryption - mirrors useEncrypt() from the React adapter
+ */
+export function useEncrypt() {
+  const store = injectStore();
+  const state = snapshotOf(store);
+  const error = ref<string>('');
+  const errorCode = ref<FhevmErrorCode | ''>('');
+  const stage = ref<EncryptStage>('idle');
+  let controller: AbortController | null = null;
+
+  // A closed form must not keep proving in the background
+  onScope(() => controller?.abort());
+
+  const update = (patch: EncryptUpdate) => {
+    if (patch.stage !== undefined) stage.value = patch.stage;
+    if (patch.error !== undefined) error.value = patch.error;
+    if (patch.errorCode !== undefined) errorCode.value = patch.errorCode;
+  };
+
+  const encrypt = (contractAddress: string, userAddress: string, value: number) =>
+    encryptValue(store, contractAddress, userAddress, value, update);
+
+  /**
+   * Encrypt a typed field map under one inputProof, reporting stage
+   * progress. A new call or cancel() aborts the one in flight.
+   */
+  const encryptFields = async <F extends FheFieldMap>(
+    contractAddress: string,
+    userAddress: string,
+    fields: F
+  ): Promise<EncryptedFields<F>> => {
+    controller?.abort();
+    const current = new AbortController();
+    controller = current;
+
+    try {
+      return await encryptFieldsInStages(store, contractAddress, userAddress, fields, current.signal, update);
+    } finally {
+      if (controller === current) controller = null;
+    }
+  };
+
+  const cancel = () => {
+    controller?.abort();
+  };
+
+  return {
+    encrypt,
+    encryptFields,
+    cancel,
+    stage,
+    isEncrypting: computed(() => state.value.pending.some(op => op.kind === 'encrypt')),
+    error,
+    errorCode,
+  };
+}
+
+/**
+ * Public decryption + on-chain verification - mirrors useDecrypt() from
+ * the React adapter
+ */
+export function useDecrypt() {
+  const store = injectStore();
+  const state = snapshotOf(store);
+  const error = ref<string>('');
+  const errorCode = ref<FhevmErrorCode | ''>('');
+
+  const verifyDecryption = async (
+    handles: string[],
+    contractAddress: string,
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+  ) => {
+    error.value = '';
+    errorCode.value = '';
+
+    try {
+      return await store.track('decrypt', async () => {
+        const decryptionResult = await store.getClient().publicDecryptV09(handles);
+
+        const tx = await verifyFunction(
+          decryptionResult.abiEncodedClearValues,
+          decryptionResult.decryptionProof
+        );
+
+        const { receipt } = await trackTransaction(tx);
+
+        return {
+          decryptionResult,
+          transactionReceipt: receipt
+        };
+      }, contractAddress);
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      error.value = fhevmError instanceof Error ? fhevmError.message : 'Decryption verification failed';
+      errorCode.value = getErrorCode(fhevmError);
+      throw fhevmError;
+    }
+  };
+
+  return {
+    verifyDecryption,
+    isDecrypting: computed(() => state.value.pending.some(op => op.kind === 'decrypt')),
+    error,
+    errorCode,
+  };
+}
+
+export interface UseUserDecryptRefOptions {
+  /** Signer for the EIP-712 request - defaults to the injected wallet's */
+  signer?: MaybeRef<ethers.Signer | undefined>;
+  /** Decrypt as soon as the instance and wallet are ready - defaults to true */
+  enabled?: MaybeRef<boolean>;
+}
+
+/**
+ * Private EIP-712 user decryption - mirrors useUserDecrypt() from the React
+ * adapter and shares its cache. Handles and contract may be refs.
+ */
+export function useUserDecrypt(
+  handles: MaybeRef<string[]>,
+  contractAddress: MaybeRef<string | undefined>,
+  options: UseUserDecryptRefOptions = {}
+) {
+  const store = injectStore();
+  const state = snapshotOf(store);
+  const results = shallowRef<Record<string, UserDecryptEntry>>({});
+
+  // Wallet state gates the automatic decryption
+  onScope(store.watchWallet());
+
+  // Results of a superseded request are dropped
+  let request = 0;
+
+  const decrypt = async () => {
+    const currentHandles = unref(handles);
+    const currentContract = unref(contractAddress);
+    if (!currentContract || currentHandles.length === 0) return;
+    const current = ++request;
+
+    await decryptForUser(store, currentHandles, currentContract, unref(options.signer), patch => {
+      if (current === request) results.value = { ...results.value, ...patch };
+    });
+  };
+
+  const handlesKey = computed(() => unref(handles).join(','));
+  const walletAddress = computed(() => state.value.wallet.address);
+  const chainId = computed(() => state.value.chainId);
+
+  // Start over when the handles, contract or wallet change
+  watch([handlesKey, () => unref(contractAddress), walletAddress, chainId], () => {
+    results.value = {};
+  });
+
+  // Sources are compared one by one - the store's pending list changing
+  // while a decryption runs must not start another
+  watch(
+    [
+      handlesKey,
+      () => unref(contractAddress),
+      walletAddress,
+      chainId,
+      () => state.value.status,
+      () => state.value.wallet.isConnected,
+      () => unref(options.enabled) ?? true,
+    ],
+    ([, , , , status, isConnected, enabled]) => {
+      if (!enabled || status !== 'ready') return;
+      if (!unref(options.signer) && !isConnected) return;
+      decrypt();
+    },
+    { immediate: true }
+  );
+
+  const summary = computed(() => summarizeUserDecryption(results.value));
+
+  return {
+    results,
+    decrypt,
+    values: computed(() => summary.value.values),
+    isDecrypting: computed(() => summary.value.isDecrypting),
+    error: computed(() => summary.value.error),
+    errorCode: computed(() => summary.value.errorCode),
+  };
+}
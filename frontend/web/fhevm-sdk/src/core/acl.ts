@@ -0,0 +1,79 @@
+/**
+ * FHEVM Access Control - Universal SDK
+ * Read-only checks against the ACL contract: which accounts a contract has
+ * granted a handle to with FHE.allow, and whether it is publicly decryptable
+ */
+
+import { ethers } from 'ethers';
+import { FhevmNetworkConfig, FhevmNetworkPreset, resolveNetworkConfig } from './networks.js';
+import { getDefaultClient } from './fhevm.js';
+import { normalizeHandle } from './handles.js';
+import { toFhevmError } from './errors.js';
+
+const ACL_ABI = [
+  'function isAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+];
+
+export interface AclReadOptions {
+  /** Network whose ACL is read - defaults to the default client's */
+  network?: FhevmNetworkPreset | FhevmNetworkConfig;
+}
+
+function aclContract(runner: ethers.ContractRunner, options: AclReadOptions) {
+  const network = options.network ? resolveNetworkConfig(options.network) : getDefaultClient().getNetwork();
+  return new ethers.Contract(network.aclContractAddress, ACL_ABI, runner);
+}
+
+/**
+ * Whether `account` may user-decrypt the handle, i.e. a contract called
+ * FHE.allow(handle, account)
+ */
+export async function isHandleAllowed(
+  handle: string | Uint8Array,
+  account: string,
+  runner: ethers.ContractRunner,
+  options: AclReadOptions = {}
+): Promise<boolean> {
+  const acl = aclContract(runner, options);
+  try {
+    return await acl.isAllowed(normalizeHandle(handle), account);
+  } catch (error) {
+    throw toFhevmError(error);
+  }
+}
+
+/**
+ * Access of several accounts to one handle, keyed by the accounts as given
+ */
+export async function getHandleAccess(
+  handle: string | Uint8Array,
+  accounts: string[],
+  runner: ethers.ContractRunner,
+  options: AclReadOptions = {}
+): Promise<Record<string, boolean>> {
+  const acl = aclContract(runner, options);
+  const hex = normalizeHandle(handle);
+  try {
+    const allowed = await Promise.all(accounts.map(account => acl.isAllowed(hex, account)));
+    return Object.fromEntries(accounts.map((account, index) => [account, allowed[index] as boolean]));
+  } catch (error) {
+    throw toFhevmError(error);
+  }
+}
+
+/**
+ * Whether the handle was marked with FHE.makePubliclyDecryptable
+ */
+export async function isHandlePubliclyDecryptable(
+  handle: string | Uint8Array,
+  runner: ethers.ContractRunner,
+  options: AclReadOptions = {}
+): Promise<boolean> {
+  const acl = aclContract(runner, options);
+  try {
+    return await acl.isAllowedForDecryption(normalizeHandle(handle));
+  } catch (error) {
+    throw toFhevmError(error);
+  }
+}
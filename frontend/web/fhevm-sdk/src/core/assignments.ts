@@ -0,0 +1,93 @@
+/**
+ * FHEVM Assignments - Universal SDK
+ * Typed calls for contracts that let reviewers request access to an encrypted
+ * record and the record's owner grant it with FHE.allow: request, grant and
+ * list, with the writes tracked through submitTransaction
+ */
+
+import { ethers } from 'ethers';
+import { InvalidInputError } from './errors.js';
+import { submitTransaction, TrackTransactionOptions, TransactionResult } from './transactions.js';
+
+/**
+ * The assignment functions a contract exposes - a typechain contract such as
+ * SecondOp_FHE satisfies it as is
+ */
+export interface AssignmentContract {
+  readonly interface: ethers.Interface;
+  requestAssignment(caseId: string): Promise<ethers.ContractTransactionResponse>;
+  assignSpecialists(caseId: string, specialists: string[]): Promise<ethers.ContractTransactionResponse>;
+  getAssignedSpecialists(caseId: string): Promise<string[]>;
+  getPendingAssignmentRequests(caseId: string): Promise<string[]>;
+}
+
+export interface AssignmentList {
+  /** Accounts granted access with FHE.allow */
+  specialists: string[];
+  /** Accounts waiting for a grant */
+  requests: string[];
+}
+
+/**
+ * Checksums and de-duplicates addresses, rejecting anything that is not one
+ */
+export function normalizeAddresses(addresses: string[]): string[] {
+  const normalized = addresses.map(value => {
+    if (!ethers.isAddress(value)) throw new InvalidInputError(`Invalid address: ${value}`);
+    return ethers.getAddress(value);
+  });
+  return [...new Set(normalized)];
+}
+
+/**
+ * Asks the record's owner for access as the contract's signer
+ */
+export async function requestAssignment(
+  contract: AssignmentContract,
+  caseId: string,
+  options: TrackTransactionOptions = {}
+): Promise<TransactionResult> {
+  return submitTransaction(() => contract.requestAssignment(caseId), {
+    contractInterface: contract.interface,
+    ...options,
+  });
+}
+
+/**
+ * Grants access to the given accounts - checked before the wallet is asked
+ */
+export async function assignSpecialists(
+  contract: AssignmentContract,
+  caseId: string,
+  specialists: string[],
+  options: TrackTransactionOptions = {}
+): Promise<TransactionResult> {
+  const addresses = normalizeAddresses(specialists);
+  if (addresses.length === 0) {
+    throw new InvalidInputError('No specialists to assign');
+  }
+
+  return submitTransaction(() => contract.assignSpecialists(caseId, addresses), {
+    contractInterface: contract.interface,
+    ...options,
+  });
+}
+
+export async function getAssignedSpecialists(contract: AssignmentContract, caseId: string): Promise<string[]> {
+  return [...(await contract.getAssignedSpecialists(caseId))];
+}
+
+export async function getPendingAssignmentRequests(contract: AssignmentContract, caseId: string): Promise<string[]> {
+  return [...(await contract.getPendingAssignmentRequests(caseId))];
+}
+
+/**
+ * Granted and pending accounts in one round trip
+ */
+export async function listAssignments(contract: AssignmentContract, caseId: string): Promise<AssignmentList> {
+  const [specialists, requests] = await Promise.all([
+    getAssignedSpecialists(contract, caseId),
+    getPendingAssignmentRequests(contract, caseId),
+  ]);
+  return { specialists, requests };
+}
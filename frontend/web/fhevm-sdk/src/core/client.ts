@@ -0,0 +1,497 @@
+/**
+ * FHEVM Client - Universal SDK
+ * Owns one relayer instance, its network config and signer, so several
+ * clients (chains, test suites) can live side by side in one process
+ */
+
+import { ethers } from "ethers";
+import { resolveNetworkConfig, FhevmNetworkConfig, FhevmNetworkPreset } from './networks.js';
+import {
+  EncryptedFields,
+  EncryptedInput,
+  EncryptedInputBuilder,
+  EncryptionStage,
+  FheFieldMap,
+} from './encryption.js';
+import {
+  InvalidConfigError,
+  InvalidInputError,
+  NotInitializedError,
+  toFhevmError,
+} from './errors.js';
+import {
+  DecryptionSession,
+  DecryptionSessionStorage,
+  DecryptionSessionStore,
+  DEFAULT_DECRYPTION_DURATION_DAYS,
+  createSessionStore,
+  groupPairsByContracts,
+  chunkPairsByBits,
+  PublicDecryptionResult,
+  toPublicDecryptionResult,
+} from './decryption.js';
+import { ClearValue, HandleContractPair, decodeClearValue, normalizeHandle } from './handles.js';
+import { createNodeEip1193Provider, resolveNodeSigner } from './provider.js';
+import { createMockFheInstance } from './mock.js';
+import { RelayerCallOptions, RetryPolicy, resolveRetryPolicy, withRetry } from './retry.js';
+
+/**
+ * 'relayer' talks to the Zama relayer; 'mock' runs against a local Hardhat
+ * FHEVM node via @fhevm/mock-utils
+ */
+export type FhevmMode = 'relayer' | 'mock';
+
+export interface FheInstanceOptions {
+  /** Defaults to 'relayer' */
+  mode?: FhevmMode;
+  /** Preset name or full network profile - defaults to 'sepolia', or 'hardhat' in mock mode */
+  network?: FhevmNetworkPreset | FhevmNetworkConfig;
+  /** Overrides the network's rpcUrl for the Node.js instance */
+  rpcUrl?: string;
+}
+
+export interface EncryptFieldsOptions extends RelayerCallOptions {
+  /** Called as the encryption moves from one stage to the next */
+  onStage?: (stage: EncryptionStage) => void;
+}
+
+export interface FheClientOptions extends FheInstanceOptions {
+  /**
+   * Default signer used for EIP-712 user decryption. In Node.js it also
+   * backs the instance's provider (accounts, transactions, signing).
+   */
+  signer?: any;
+  /** Node.js only - builds an ethers Wallet on the client's RPC endpoint */
+  privateKey?: string;
+  /** How long a decryption signature stays valid - defaults to 10 days */
+  decryptionDurationDays?: number;
+  /** Where decryption keypairs/signatures are cached - defaults to 'memory' */
+  sessionStorage?: DecryptionSessionStorage;
+  /** Retry/timeout policy for relayer calls - merged over DEFAULT_RETRY_POLICY */
+  retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * Build the relayer SDK config for a network profile
+ */
+function toRelayerConfig(network: FhevmNetworkConfig, provider: any) {
+  return {
+    aclContractAddress: network.aclContractAddress,
+    kmsContractAddress: network.kmsContractAddress,
+    inputVerifierContractAddress: network.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    relayerUrl: network.relayerUrl,
+    network: provider,
+  };
+}
+
+/**
+ * Create FHEVM instance for browser environment
+ */
+async function createBrowserFheInstance(network: FhevmNetworkConfig) {
+  if (typeof window === 'undefined' || !window.ethereum) {
+    throw new InvalidConfigError('Ethereum provider not found. Please install MetaMask or connect a wallet.');
+  }
+
+  // Check for both uppercase and lowercase versions of RelayerSDK
+  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
+
+  if (!sdk) {
+    throw new NotInitializedError('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+  }
+
+  const { initSDK, createInstance } = sdk;
+
+  // Try to initialize SDK with CDN first (default behavior)
+  // If it fails (e.g., CORS error), fallback to local WASM files
+  try {
+    await initSDK(); // Try CDN first
+    console.log('✅ FHEVM SDK initialized with CDN');
+  } catch (cdnError) {
+    // If CDN fails (usually CORS), fallback to local WASM files
+    console.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
+    console.log('🔄 Trying local WASM files from public folder...');
+    await initSDK({
+      tfheParams: '/tfhe_bg.wasm',
+      kmsParams: '/kms_lib_bg.wasm'
+    });
+    console.log('✅ FHEVM SDK initialized with local WASM files');
+  }
+
+  const config = toRelayerConfig(network, window.ethereum);
+
+  try {
+    return await createInstance(config);
+  } catch (err) {
+    console.error('FHEVM browser instance creation failed:', err);
+    throw toFhevmError(err);
+  }
+}
+
+/**
+ * Create FHEVM instance for Node.js environment
+ * REAL FUNCTIONALITY - uses actual RelayerSDK
+ */
+async function createNodeFheInstance(
+  network: FhevmNetworkConfig,
+  options: { rpcUrl?: string; signer?: any; privateKey?: string }
+) {
+  try {
+    console.log('🚀 Initializing REAL FHEVM Node.js instance...');
+
+    // Checked before the relayer SDK (and its WASM) is loaded
+    const endpoint = options.rpcUrl || network.rpcUrl;
+    if (!endpoint) {
+      throw new InvalidConfigError(`No RPC URL configured for chain ${network.chainId}. Pass rpcUrl or set network.rpcUrl.`);
+    }
+
+    // Use eval to prevent webpack from analyzing these imports
+    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
+    const { createInstance } = relayerSDKModule;
+
+    const provider = new ethers.JsonRpcProvider(endpoint);
+
+    const { chainId } = await provider.getNetwork();
+    if (Number(chainId) !== network.chainId) {
+      throw new InvalidConfigError(`RPC endpoint ${endpoint} is on chain ${chainId}, expected ${network.chainId}`);
+    }
+
+    const signer = resolveNodeSigner(provider, options.signer, options.privateKey);
+    const config = toRelayerConfig(network, createNodeEip1193Provider(provider, signer));
+
+    const instance = await createInstance(config);
+    console.log('✅ REAL FHEVM Node.js instance created successfully!');
+    return { instance, signer };
+  } catch (err) {
+    console.error('FHEVM Node.js instance creation failed:', err);
+    throw toFhevmError(err);
+  }
+}
+
+/**
+ * Network a client built from these options targets
+ */
+export function resolveClientNetwork(options: FheInstanceOptions = {}): FhevmNetworkConfig {
+  return resolveNetworkConfig(options.network ?? (options.mode === 'mock' ? 'hardhat' : 'sepolia'));
+}
+
+export class FheClient {
+  private instance: any = null;
+  private mode: FhevmMode;
+  private network: FhevmNetworkConfig;
+  private rpcUrl?: string;
+  private privateKey?: string;
+  private signer: any;
+  private decryptionDurationDays: number;
+  private sessionStore: DecryptionSessionStore;
+  private retry: RetryPolicy;
+  private sessions = new Map<string, DecryptionSession[]>();
+
+  constructor(options: FheClientOptions = {}) {
+    this.mode = options.mode ?? 'relayer';
+    this.network = resolveClientNetwork(options);
+    this.rpcUrl = options.rpcUrl;
+    this.privateKey = options.privateKey;
+    if (options.signer && options.privateKey) {
+      throw new InvalidConfigError('Pass either a signer or a privateKey, not both.');
+    }
+    this.signer = options.signer ?? null;
+    this.decryptionDurationDays = options.decryptionDurationDays ?? DEFAULT_DECRYPTION_DURATION_DAYS;
+    this.sessionStore = createSessionStore(options.sessionStorage);
+    this.retry = resolveRetryPolicy(options.retry);
+  }
+
+  /**
+   * Create and initialize a client in one step
+   */
+  static async create(options: FheClientOptions = {}): Promise<FheClient> {
+    const client = new FheClient(options);
+    await client.initialize();
+    return client;
+  }
+
+  /**
+   * Initialize the relayer instance - Environment-aware
+   */
+  async initialize() {
+    // Sessions are bound to the previous instance's keypairs
+    this.sessions.clear();
+
+    if (this.mode === 'mock') {
+      // Same path in browser and Node.js - the Hardhat node is the relayer
+      const { instance, signer } = await createMockFheInstance(this.network, {
+        rpcUrl: this.rpcUrl,
+        signer: this.signer,
+        privateKey: this.signer ? undefined : this.privateKey,
+      });
+      this.instance = instance;
+      if (signer) this.signer = signer;
+    } else if (typeof window !== 'undefined' && window.ethereum) {
+      // Browser environment - use existing working code
+      this.instance = await createBrowserFheInstance(this.network);
+    } else {
+      // Node.js environment - signer-backed provider on the configured RPC
+      const { instance, signer } = await createNodeFheInstance(this.network, {
+        rpcUrl: this.rpcUrl,
+        signer: this.signer,
+        // The wallet built from privateKey becomes this.signer on first init
+        privateKey: this.signer ? undefined : this.privateKey,
+      });
+      this.instance = instance;
+      if (signer) this.signer = signer;
+    }
+    return this.instance;
+  }
+
+  getInstance() {
+    return this.instance;
+  }
+
+  get isInitialized(): boolean {
+    return this.instance !== null;
+  }
+
+  getMode(): FhevmMode {
+    return this.mode;
+  }
+
+  getNetwork(): FhevmNetworkConfig {
+    return this.network;
+  }
+
+  getSigner() {
+    return this.signer;
+  }
+
+  setSigner(signer: any) {
+    this.signer = signer;
+  }
+
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retry };
+  }
+
+  private requireInstance() {
+    if (!this.instance) throw new NotInitializedError();
+    return this.instance;
+  }
+
+  private requireSigner(signer?: any) {
+    const resolved = signer ?? this.signer;
+    if (!resolved) throw new InvalidConfigError('No signer available. Pass a signer or set one on the client.');
+    return resolved;
+  }
+
+  /**
+   * Get a decryption session covering the given contracts for a signer,
+   * reusing a cached one (and its signature) while it has not expired
+   */
+  async getDecryptionSession(contractAddresses: string[], signer?: any): Promise<DecryptionSession> {
+    const fhe = this.requireInstance();
+    signer = this.requireSigner(signer);
+
+    const userAddress = (await signer.getAddress()).toLowerCase();
+    const sessions = this.sessions.get(userAddress) ?? [];
+    const existing = sessions.find(session => session.covers(contractAddresses));
+    if (existing) return existing;
+
+    const session = new DecryptionSession(fhe, signer, {
+      contractAddresses,
+      chainId: this.network.chainId,
+      durationDays: this.decryptionDurationDays,
+      store: this.sessionStore,
+      retry: this.retry,
+    });
+    this.sessions.set(userAddress, [...sessions, session]);
+    return session;
+  }
+
+  /**
+   * Drop every cached decryption session (e.g. on wallet disconnect)
+   */
+  async clearDecryptionSessions() {
+    const sessions = [...this.sessions.values()].flat();
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.clear()));
+  }
+
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API).
+   * Returns bigint, boolean or address according to the handle's type; use
+   * toSafeNumber() to opt into a number.
+   */
+  async decryptValue(
+    encryptedBytes: string,
+    contractAddress: string,
+    signer?: any,
+    options?: RelayerCallOptions
+  ): Promise<ClearValue> {
+    const result = await this.batchDecryptValues([encryptedBytes], contractAddress, signer, options);
+    return result[encryptedBytes];
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values from a single contract
+   */
+  async batchDecryptValues(
+    handles: string[],
+    contractAddress: string,
+    signer?: any,
+    options?: RelayerCallOptions
+  ): Promise<Record<string, ClearValue>> {
+    return this.batchDecryptHandles(handles.map(handle => ({ handle, contractAddress })), signer, options);
+  }
+
+  /**
+   * Batch decrypt handles held by several contracts. One signature covers up
+   * to MAX_CONTRACTS_PER_SIGNATURE contracts; requests are split to stay
+   * within the relayer's MAX_DECRYPT_BITS limit.
+   */
+  async batchDecryptHandles(
+    pairs: HandleContractPair[],
+    signer?: any,
+    options?: RelayerCallOptions
+  ): Promise<Record<string, ClearValue>> {
+    const decryptedValues: Record<string, ClearValue> = {};
+    if (pairs.length === 0) return decryptedValues;
+
+    try {
+      console.log('🔐 Using EIP-712 user decryption for handles:', pairs.map(pair => pair.handle));
+
+      for (const group of groupPairsByContracts(pairs)) {
+        const session = await this.getDecryptionSession(group.map(pair => pair.contractAddress), signer);
+
+        for (const chunk of chunkPairsByBits(group)) {
+          const result = await session.userDecrypt(chunk, options);
+
+          // Relayer keys may differ in case from the handles we were given
+          const byHandle = new Map<string, any>();
+          for (const [handle, value] of Object.entries(result)) {
+            byHandle.set(handle.toLowerCase(), value);
+          }
+
+          // Decode each value according to the FHE type in its handle
+          for (const pair of chunk) {
+            decryptedValues[pair.handle] = decodeClearValue(pair.handle, byHandle.get(normalizeHandle(pair.handle)));
+          }
+        }
+      }
+
+      return decryptedValues;
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+
+  /**
+   * Start a typed encrypted input - chain add*() calls and encrypt() once
+   * to get every handle under a single inputProof
+   */
+  createInputBuilder(contractAddress: string, userAddress: string): EncryptedInputBuilder {
+    return new EncryptedInputBuilder(this.requireInstance(), contractAddress, userAddress, this.retry);
+  }
+
+  /**
+   * Encrypt 8-bit digits into one input (each digit must fit in 0-255).
+   * Use createInputBuilder() for other bit sizes or mixed types.
+   */
+  async encryptValue(
+    contractAddress: string,
+    address: string,
+    plainDigits: number[],
+    options?: RelayerCallOptions
+  ) {
+    const builder = this.createInputBuilder(contractAddress, address);
+    for (const d of plainDigits) {
+      builder.add8(d);
+    }
+
+    return builder.encrypt(options);
+  }
+
+  /**
+   * Create encrypted input for contract interaction (matches showcase API)
+   */
+  async createEncryptedInput(
+    contractAddress: string,
+    userAddress: string,
+    value: number,
+    options?: RelayerCallOptions
+  ): Promise<EncryptedInput> {
+    console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
+
+    const { handles, inputProof } = await this.createInputBuilder(contractAddress, userAddress)
+      .add32(value)
+      .encrypt(options);
+
+    console.log('✅ Encrypted input created successfully');
+    return { handles, inputProof };
+  }
+
+  /**
+   * Encrypt a map of named, typed fields into one input. Handles come back
+   * under the same keys; a bad value is reported with its field name.
+   */
+  async encryptFields<F extends FheFieldMap>(
+    contractAddress: string,
+    userAddress: string,
+    fields: F,
+    options: EncryptFieldsOptions = {}
+  ): Promise<EncryptedFields<F>> {
+    const keys = Object.keys(fields) as (keyof F & string)[];
+    if (keys.length === 0) throw new InvalidInputError('No fields to encrypt');
+
+    options.onStage?.('loading-keys');
+    const builder = this.createInputBuilder(contractAddress, userAddress);
+    for (const key of keys) {
+      try {
+        builder.add(fields[key].type, fields[key].value);
+      } catch (error) {
+        if (error instanceof InvalidInputError) throw new InvalidInputError(`Field "${key}": ${error.message}`, error);
+        throw error;
+      }
+    }
+
+    options.onStage?.('proving');
+    const encrypted = await builder.encrypt(options);
+
+    const handles = {} as EncryptedFields<F>['handles'];
+    const types = {} as EncryptedFields<F>['types'];
+    keys.forEach((key, index) => {
+      handles[key] = encrypted.handles[index];
+      types[key] = fields[key].type;
+    });
+
+    return { handles, types, inputProof: encrypted.inputProof };
+  }
+
+  /**
+   * Public decryption with a KMS proof, for on-chain verification via
+   * FHE.checkSignatures. Values are decoded and ABI-encoded by handle type.
+   */
+  async publicDecryptV09(handles: string[], options: RelayerCallOptions = {}): Promise<PublicDecryptionResult> {
+    const fhe = this.requireInstance();
+    if (handles.length === 0) throw new InvalidInputError('No handles to decrypt');
+    handles.forEach(normalizeHandle);
+
+    if (typeof fhe.publicDecrypt !== 'function') {
+      throw new InvalidConfigError('This relayer SDK version does not support public decryption with KMS proofs');
+    }
+
+    try {
+      console.log('🔐 Starting v0.9 public decryption for handles:', handles);
+
+      const result = await withRetry(
+        () => fhe.publicDecrypt(handles),
+        resolveRetryPolicy(this.retry, options.retry),
+        options.signal
+      );
+      return toPublicDecryptionResult(handles, result);
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+  }
+}
@@ -4,49 +4,71 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { FheClient } from './client.js';
+import { getDefaultClient } from './fhevm.js';
+import { EncryptedInput } from './encryption.js';
+import { TrackTransactionOptions, trackTransaction, toTransactionError } from './transactions.js';
 
 export class FhevmContract {
   private contract: ethers.Contract;
   private address: string;
+  private client?: FheClient;
 
-  constructor(contract: ethers.Contract, address: string) {
+  /**
+   * @param client - FheClient to encrypt with; falls back to the default client
+   */
+  constructor(contract: ethers.Contract, address: string, client?: FheClient) {
     this.contract = contract;
     this.address = address;
+    this.client = client;
   }
 
   /**
-   * Encrypt and call contract function
+   * Encrypt and call contract function - passes each handle, then the inputProof
    */
   async encryptAndCall(
     functionName: string,
-    encryptedParams: any,
+    encryptedParams: EncryptedInput,
     ...additionalParams: any[]
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    try {
+      return await this.contract[functionName](...encryptedParams.handles, encryptedParams.inputProof, ...additionalParams);
+    } catch (error) {
+      throw toTransactionError(error, this.contract.interface);
+    }
   }
 
   /**
-   * Encrypt and call with wait
+   * Encrypt and call with wait - reverts reject with a TransactionFailedError
+   * carrying the decoded reason
    */
   async encryptAndCallAndWait(
     functionName: string,
-    encryptedParams: any,
+    encryptedParams: EncryptedInput,
     ...additionalParams: any[]
   ): Promise<ethers.TransactionReceipt> {
     const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
-    if (!receipt) {
-      throw new Error("Transaction receipt is null");
-    }
+    const { receipt } = await trackTransaction(tx, { contractInterface: this.contract.interface });
     return receipt;
   }
 
+  /**
+   * Follow a transaction sent through this contract - lifecycle events,
+   * N confirmations and custom errors decoded against its ABI
+   */
+  async track(
+    tx: ethers.TransactionResponse,
+    options: Omit<TrackTransactionOptions, 'contractInterface'> = {}
+  ) {
+    return trackTransaction(tx, { ...options, contractInterface: this.contract.interface });
+  }
+
   /**
    * Create encrypted input for contract
    */
-  async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+  async createEncryptedInput(userAddress: string, value: number): Promise<EncryptedInput> {
+    const client = this.client ?? getDefaultClient();
+    return client.createEncryptedInput(this.address, userAddress, value);
   }
 }
 
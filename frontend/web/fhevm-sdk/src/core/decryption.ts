@@ -0,0 +1,389 @@
+/**
+ * FHEVM Decryption - Universal SDK
+ * Reusable EIP-712 user-decryption sessions: sign once, decrypt many times
+ */
+
+import { ethers } from 'ethers';
+import { openDB, IDBPDatabase } from 'idb';
+import { FHE_TYPE_BITS } from './encryption.js';
+import { InvalidHandleError, InvalidInputError, ProofVerificationError } from './errors.js';
+import {
+  ClearValue,
+  FHE_SOLIDITY_TYPES,
+  HandleContractPair,
+  decodeClearValue,
+  getHandleType,
+  normalizeHandle,
+} from './handles.js';
+import { DEFAULT_RETRY_POLICY, RelayerCallOptions, RetryPolicy, resolveRetryPolicy, withRetry } from './retry.js';
+
+const SECONDS_PER_DAY = 86400;
+
+/** Refuse to use a session this close to its expiry */
+const EXPIRY_MARGIN_SECONDS = 60;
+
+export const DEFAULT_DECRYPTION_DURATION_DAYS = 10;
+
+/** Relayer limit on encrypted bits per userDecrypt request */
+export const MAX_DECRYPT_BITS = 2048;
+
+/** Relayer limit on contract addresses per EIP-712 decryption signature */
+export const MAX_CONTRACTS_PER_SIGNATURE = 10;
+
+/**
+ * Keypair and signature authorizing user decryption for a set of contracts
+ */
+export interface DecryptionCredentials {
+  publicKey: string;
+  privateKey: string;
+  /** EIP-712 signature without the 0x prefix, as the relayer expects */
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+/**
+ * Where signed credentials are kept between calls (and page loads, for IndexedDB)
+ */
+export interface DecryptionSessionStore {
+  get(key: string): Promise<DecryptionCredentials | undefined>;
+  set(key: string, credentials: DecryptionCredentials): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemorySessionStore implements DecryptionSessionStore {
+  private entries = new Map<string, DecryptionCredentials>();
+
+  async get(key: string) {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, credentials: DecryptionCredentials) {
+    this.entries.set(key, credentials);
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+const IDB_STORE_NAME = 'decryption-sessions';
+
+/**
+ * Persists credentials in IndexedDB so a signature survives page reloads.
+ * Note the decryption private key is stored alongside the signature.
+ */
+export class IndexedDbSessionStore implements DecryptionSessionStore {
+  private dbName: string;
+  private db: Promise<IDBPDatabase> | null = null;
+
+  constructor(dbName = 'fhevm-sdk') {
+    this.dbName = dbName;
+  }
+
+  private open() {
+    if (!this.db) {
+      this.db = openDB(this.dbName, 1, {
+        upgrade(db) {
+          db.createObjectStore(IDB_STORE_NAME);
+        },
+      });
+    }
+    return this.db;
+  }
+
+  async get(key: string) {
+    return (await this.open()).get(IDB_STORE_NAME, key);
+  }
+
+  async set(key: string, credentials: DecryptionCredentials) {
+    await (await this.open()).put(IDB_STORE_NAME, credentials, key);
+  }
+
+  async delete(key: string) {
+    await (await this.open()).delete(IDB_STORE_NAME, key);
+  }
+}
+
+export type DecryptionSessionStorage = 'memory' | 'indexeddb' | DecryptionSessionStore;
+
+export function createSessionStore(storage: DecryptionSessionStorage = 'memory'): DecryptionSessionStore {
+  if (storage === 'memory') return new MemorySessionStore();
+  if (storage === 'indexeddb') return new IndexedDbSessionStore();
+  return storage;
+}
+
+export interface DecryptionSessionOptions {
+  /** Contracts the signature authorizes decryption for */
+  contractAddresses: string[];
+  /** Host chain id, part of the storage key so chains never share credentials */
+  chainId: number;
+  durationDays?: number;
+  store?: DecryptionSessionStore;
+  /** Applied to the relayer userDecrypt call - not to the signature prompt */
+  retry?: RetryPolicy;
+}
+
+function normalizeAddresses(addresses: string[]): string[] {
+  return [...new Set(addresses.map(a => a.toLowerCase()))].sort();
+}
+
+/**
+ * Whether credentials are still usable at the given time (seconds)
+ */
+export function isCredentialValid(credentials: DecryptionCredentials, now = Math.floor(Date.now() / 1000)): boolean {
+  const expiresAt = credentials.startTimestamp + credentials.durationDays * SECONDS_PER_DAY;
+  return now + EXPIRY_MARGIN_SECONDS < expiresAt;
+}
+
+export class DecryptionSession {
+  private instance: any;
+  private signer: any;
+  private contractAddresses: string[];
+  private chainId: number;
+  private durationDays: number;
+  private store: DecryptionSessionStore;
+  private retry: RetryPolicy;
+  private credentials: DecryptionCredentials | null = null;
+  private pending: Promise<DecryptionCredentials> | null = null;
+
+  constructor(instance: any, signer: any, options: DecryptionSessionOptions) {
+    if (options.contractAddresses.length === 0) {
+      throw new InvalidInputError('A decryption session needs at least one contract address');
+    }
+    if (new Set(options.contractAddresses.map(a => a.toLowerCase())).size > MAX_CONTRACTS_PER_SIGNATURE) {
+      throw new InvalidInputError(`A decryption session can cover at most ${MAX_CONTRACTS_PER_SIGNATURE} contracts`);
+    }
+    this.instance = instance;
+    this.signer = signer;
+    this.contractAddresses = normalizeAddresses(options.contractAddresses);
+    this.chainId = options.chainId;
+    this.durationDays = options.durationDays ?? DEFAULT_DECRYPTION_DURATION_DAYS;
+    this.store = options.store ?? new MemorySessionStore();
+    this.retry = options.retry ?? DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * True when this session's signature authorizes all the given contracts
+   */
+  covers(contractAddresses: string[]): boolean {
+    return normalizeAddresses(contractAddresses).every(a => this.contractAddresses.includes(a));
+  }
+
+  get isOpen(): boolean {
+    return this.credentials !== null && isCredentialValid(this.credentials);
+  }
+
+  get expiresAt(): number | null {
+    if (!this.credentials) return null;
+    return this.credentials.startTimestamp + this.credentials.durationDays * SECONDS_PER_DAY;
+  }
+
+  private async storageKey() {
+    const userAddress = (await this.signer.getAddress()).toLowerCase();
+    return `${this.chainId}:${userAddress}:${this.contractAddresses.join(',')}`;
+  }
+
+  /**
+   * Return valid credentials - from memory, then the store, and only
+   * prompt for a new signature when neither is usable
+   */
+  async open(): Promise<DecryptionCredentials> {
+    if (this.credentials && isCredentialValid(this.credentials)) return this.credentials;
+
+    // Concurrent decrypts share one signature prompt
+    if (!this.pending) {
+      this.pending = this.loadOrSign().finally(() => {
+        this.pending = null;
+      });
+    }
+    return this.pending;
+  }
+
+  private async loadOrSign(): Promise<DecryptionCredentials> {
+    const key = await this.storageKey();
+
+    const stored = await this.store.get(key);
+    if (stored && isCredentialValid(stored)) {
+      this.credentials = stored;
+      return stored;
+    }
+
+    console.log('✍️ Requesting EIP-712 signature for decryption session:', this.contractAddresses);
+
+    const keypair = this.instance.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+
+    const eip712 = this.instance.createEIP712(
+      keypair.publicKey,
+      this.contractAddresses,
+      startTimestamp.toString(),
+      this.durationDays.toString()
+    );
+
+    const signature = await this.signer.signTypedData(
+      eip712.domain,
+      {
+        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+      },
+      eip712.message
+    );
+
+    const credentials: DecryptionCredentials = {
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature: signature.replace('0x', ''),
+      userAddress: await this.signer.getAddress(),
+      contractAddresses: this.contractAddresses,
+      startTimestamp,
+      durationDays: this.durationDays,
+    };
+
+    await this.store.set(key, credentials);
+    this.credentials = credentials;
+    return credentials;
+  }
+
+  /**
+   * Run a user decryption with the session's credentials
+   */
+  async userDecrypt(handleContractPairs: HandleContractPair[], options: RelayerCallOptions = {}): Promise<Record<string, any>> {
+    const uncovered = handleContractPairs.filter(pair => !this.covers([pair.contractAddress]));
+    if (uncovered.length > 0) {
+      throw new InvalidInputError(`Decryption session does not cover contract ${uncovered[0].contractAddress}`);
+    }
+
+    const credentials = await this.open();
+
+    return withRetry(
+      () => this.instance.userDecrypt(
+        handleContractPairs,
+        credentials.privateKey,
+        credentials.publicKey,
+        credentials.signature,
+        credentials.contractAddresses,
+        credentials.userAddress,
+        credentials.startTimestamp.toString(),
+        credentials.durationDays.toString()
+      ),
+      resolveRetryPolicy(this.retry, options.retry),
+      options.signal
+    );
+  }
+
+  /**
+   * Forget the credentials, both in memory and in the store
+   */
+  async clear() {
+    this.credentials = null;
+    await this.store.delete(await this.storageKey());
+  }
+}
+
+/**
+ * Split handle/contract pairs so each group spans at most
+ * MAX_CONTRACTS_PER_SIGNATURE contracts (one signature per group)
+ */
+export function groupPairsByContracts(pairs: HandleContractPair[]): HandleContractPair[][] {
+  const contracts = normalizeAddresses(pairs.map(pair => pair.contractAddress));
+  const groups: HandleContractPair[][] = [];
+
+  for (let i = 0; i < contracts.length; i += MAX_CONTRACTS_PER_SIGNATURE) {
+    const slice = contracts.slice(i, i + MAX_CONTRACTS_PER_SIGNATURE);
+    groups.push(pairs.filter(pair => slice.includes(pair.contractAddress.toLowerCase())));
+  }
+  return groups;
+}
+
+/**
+ * Split handle/contract pairs into requests of at most MAX_DECRYPT_BITS
+ * encrypted bits, preserving order
+ */
+export function chunkPairsByBits(pairs: HandleContractPair[]): HandleContractPair[][] {
+  const chunks: HandleContractPair[][] = [];
+  let current: HandleContractPair[] = [];
+  let bits = 0;
+
+  for (const pair of pairs) {
+    const pairBits = FHE_TYPE_BITS[getHandleType(pair.handle)];
+    if (current.length > 0 && bits + pairBits > MAX_DECRYPT_BITS) {
+      chunks.push(current);
+      current = [];
+      bits = 0;
+    }
+    current.push(pair);
+    bits += pairBits;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * Public decryption result, ready for FHE.checkSignatures on-chain
+ */
+export interface PublicDecryptionResult {
+  clearValues: Record<string, ClearValue>;
+  /** Cleartexts ABI-encoded in handle order, each with its handle's type */
+  abiEncodedClearValues: string;
+  /** KMS signatures over the cleartexts */
+  decryptionProof: string;
+}
+
+/**
+ * ABI-encode cleartexts in handle order using each handle's Solidity type
+ */
+export function abiEncodeClearValues(handles: string[], clearValues: Record<string, ClearValue>): string {
+  const types = handles.map(handle => FHE_SOLIDITY_TYPES[getHandleType(handle)]);
+  const values = handles.map(handle => {
+    const value = clearValues[handle];
+    if (value === undefined) {
+      throw new InvalidHandleError(`Missing cleartext for handle ${handle}`);
+    }
+    return value;
+  });
+  return ethers.AbiCoder.defaultAbiCoder().encode(types, values);
+}
+
+/**
+ * Validate a raw relayer publicDecrypt() result. Never fabricates a proof:
+ * a result without a KMS decryption proof is rejected.
+ */
+export function toPublicDecryptionResult(handles: string[], raw: any): PublicDecryptionResult {
+  if (!raw || typeof raw !== 'object') {
+    throw new ProofVerificationError('Invalid publicDecrypt result structure');
+  }
+
+  const proof = raw.decryptionProof;
+  if (typeof proof !== 'string' || !ethers.isHexString(proof) || proof === '0x') {
+    throw new ProofVerificationError('Public decryption returned no KMS decryption proof; refusing to return an unverifiable result');
+  }
+
+  const rawValues = raw.clearValues;
+  if (!rawValues || typeof rawValues !== 'object') {
+    throw new ProofVerificationError('Invalid publicDecrypt result structure: missing clearValues');
+  }
+
+  // Relayer keys may differ in case from the handles we were given
+  const byHandle = new Map<string, unknown>();
+  for (const [handle, value] of Object.entries(rawValues)) {
+    byHandle.set(handle.toLowerCase(), value);
+  }
+
+  const clearValues: Record<string, ClearValue> = {};
+  for (const handle of handles) {
+    clearValues[handle] = decodeClearValue(handle, byHandle.get(normalizeHandle(handle)));
+  }
+
+  const abiEncodedClearValues =
+    typeof raw.abiEncodedClearValues === 'string' && raw.abiEncodedClearValues !== '0x'
+      ? raw.abiEncodedClearValues
+      : abiEncodeClearValues(handles, clearValues);
+
+  return {
+    clearValues,
+    abiEncodedClearValues,
+    decryptionProof: proof,
+  };
+}
@@ -0,0 +1,259 @@
+/**
+ * FHEVM Encryption - Universal SDK
+ * Typed builder that packs several values into one inputProof
+ */
+
+import { ethers } from 'ethers';
+import { InvalidInputError, MalformedEncryptedInputError } from './errors.js';
+import { DEFAULT_RETRY_POLICY, RelayerCallOptions, RetryPolicy, resolveRetryPolicy, withRetry } from './retry.js';
+
+export type FheType =
+  | 'ebool'
+  | 'euint8'
+  | 'euint16'
+  | 'euint32'
+  | 'euint64'
+  | 'euint128'
+  | 'euint256'
+  | 'eaddress';
+
+export type FheInputValue = boolean | number | bigint | string;
+
+/**
+ * Encrypted bit width of each type, as counted by the relayer SDK
+ */
+export const FHE_TYPE_BITS: Record<FheType, number> = {
+  ebool: 2,
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+  eaddress: 160,
+};
+
+/** Maximum total bits the relayer accepts in a single input proof */
+export const MAX_INPUT_BITS = 2048;
+
+/**
+ * Result of encrypting one or more values for a contract call.
+ * Pass handles[i] as the externalEuintXX argument and inputProof as the proof.
+ */
+export interface EncryptedInput {
+  /** 32-byte handles in insertion order */
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+export interface TypedEncryptedInput extends EncryptedInput {
+  /** Declared type of each handle, same order as handles */
+  types: FheType[];
+}
+
+/**
+ * Named, typed cleartexts for one encrypted input, e.g.
+ * { diagnosis: { type: 'euint32', value: 412 }, urgent: { type: 'ebool', value: true } }
+ */
+export type FheFieldMap = Record<string, { type: FheType; value: FheInputValue }>;
+
+/**
+ * Handles keyed by field name, all under one inputProof
+ */
+export interface EncryptedFields<F extends FheFieldMap> {
+  handles: { [K in keyof F]: Uint8Array };
+  types: { [K in keyof F]: F[K]['type'] };
+  inputProof: Uint8Array;
+}
+
+/** Progress of an encryption: packing inputs, then the ZK proof round-trip */
+export type EncryptionStage = 'loading-keys' | 'proving';
+
+/**
+ * Validate a raw relayer encrypt() result and return it as an EncryptedInput.
+ * Throws MalformedEncryptedInputError instead of guessing at other shapes.
+ */
+export function toEncryptedInput(result: any, expectedHandles?: number): EncryptedInput {
+  if (!result || typeof result !== 'object') {
+    throw new MalformedEncryptedInputError('expected an object with handles and inputProof', result);
+  }
+  if (!Array.isArray(result.handles) || result.handles.length === 0) {
+    throw new MalformedEncryptedInputError('handles must be a non-empty array', result);
+  }
+  if (expectedHandles !== undefined && result.handles.length !== expectedHandles) {
+    throw new MalformedEncryptedInputError(`expected ${expectedHandles} handles, got ${result.handles.length}`, result);
+  }
+  result.handles.forEach((handle: unknown, index: number) => {
+    if (!(handle instanceof Uint8Array) || handle.length !== 32) {
+      throw new MalformedEncryptedInputError(`handle ${index} is not a 32-byte Uint8Array`, result);
+    }
+  });
+  if (!(result.inputProof instanceof Uint8Array) || result.inputProof.length === 0) {
+    throw new MalformedEncryptedInputError('inputProof must be a non-empty Uint8Array', result);
+  }
+
+  return {
+    handles: result.handles,
+    inputProof: result.inputProof,
+  };
+}
+
+/**
+ * 0x-prefixed hex form of a handle, as returned by contract getters
+ */
+export function handleToHex(handle: Uint8Array): string {
+  return ethers.hexlify(handle);
+}
+
+/**
+ * Hex form of a whole encrypted input, e.g. for logging or JSON transport
+ */
+export function encryptedInputToHex(input: EncryptedInput): { handles: string[]; inputProof: string } {
+  return {
+    handles: input.handles.map(handleToHex),
+    inputProof: ethers.hexlify(input.inputProof),
+  };
+}
+
+/**
+ * Check that a cleartext fits the declared FHE type before it is encrypted
+ */
+export function assertInputValue(type: FheType, value: FheInputValue): void {
+  if (type === 'ebool') {
+    if (typeof value === 'boolean') return;
+    if ((typeof value === 'number' || typeof value === 'bigint') && (value == 0 || value == 1)) return;
+    throw new InvalidInputError(`Invalid ebool value ${String(value)}: expected true/false or 0/1`);
+  }
+
+  if (type === 'eaddress') {
+    if (typeof value === 'string' && ethers.isAddress(value)) return;
+    throw new InvalidInputError(`Invalid eaddress value ${String(value)}: expected a 20-byte hex address`);
+  }
+
+  const bits = FHE_TYPE_BITS[type];
+  if (bits === undefined) {
+    throw new InvalidInputError(`Unsupported FHE type "${type}"`);
+  }
+
+  let big: bigint;
+  if (typeof value === 'bigint') {
+    big = value;
+  } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    big = BigInt(value);
+  } else {
+    throw new InvalidInputError(`Invalid ${type} value ${String(value)}: expected an integer (use bigint above 2^53)`);
+  }
+
+  const max = (1n << BigInt(bits)) - 1n;
+  if (big < 0n || big > max) {
+    throw new InvalidInputError(`Value ${big} is out of range for ${type} (0 to ${max})`);
+  }
+}
+
+export class EncryptedInputBuilder {
+  private input: any;
+  private types: FheType[] = [];
+  private bits = 0;
+  private retry: RetryPolicy;
+
+  constructor(instance: any, contractAddress: string, userAddress: string, retry: RetryPolicy = DEFAULT_RETRY_POLICY) {
+    this.input = instance.createEncryptedInput(contractAddress, userAddress);
+    this.retry = retry;
+  }
+
+  /**
+   * Add a value of the given type - range-checked before it reaches the relayer
+   */
+  add(type: FheType, value: FheInputValue): this {
+    assertInputValue(type, value);
+
+    const bits = FHE_TYPE_BITS[type];
+    if (this.bits + bits > MAX_INPUT_BITS) {
+      throw new InvalidInputError(`Encrypted input exceeds ${MAX_INPUT_BITS} bits; split the values across several inputs`);
+    }
+
+    switch (type) {
+      case 'ebool':
+        this.input.addBool(value);
+        break;
+      case 'euint8':
+        this.input.add8(value);
+        break;
+      case 'euint16':
+        this.input.add16(value);
+        break;
+      case 'euint32':
+        this.input.add32(value);
+        break;
+      case 'euint64':
+        this.input.add64(value);
+        break;
+      case 'euint128':
+        this.input.add128(value);
+        break;
+      case 'euint256':
+        this.input.add256(value);
+        break;
+      case 'eaddress':
+        this.input.addAddress(value);
+        break;
+    }
+
+    this.types.push(type);
+    this.bits += bits;
+    return this;
+  }
+
+  addBool(value: boolean | number) {
+    return this.add('ebool', value);
+  }
+
+  add8(value: number | bigint) {
+    return this.add('euint8', value);
+  }
+
+  add16(value: number | bigint) {
+    return this.add('euint16', value);
+  }
+
+  add32(value: number | bigint) {
+    return this.add('euint32', value);
+  }
+
+  add64(value: number | bigint) {
+    return this.add('euint64', value);
+  }
+
+  add128(value: number | bigint) {
+    return this.add('euint128', value);
+  }
+
+  add256(value: number | bigint) {
+    return this.add('euint256', value);
+  }
+
+  addAddress(value: string) {
+    return this.add('eaddress', value);
+  }
+
+  get size(): number {
+    return this.types.length;
+  }
+
+  /**
+   * Encrypt all added values into a single proof. The relayer round-trip
+   * is retried on transient failures per the builder's retry policy.
+   */
+  async encrypt(options: RelayerCallOptions = {}): Promise<TypedEncryptedInput> {
+    if (this.types.length === 0) {
+      throw new InvalidInputError('Nothing to encrypt. Add at least one value first.');
+    }
+
+    const raw = await withRetry(() => this.input.encrypt(), resolveRetryPolicy(this.retry, options.retry), options.signal);
+    const result = toEncryptedInput(raw, this.types.length);
+    return {
+      ...result,
+      types: [...this.types],
+    };
+  }
+}
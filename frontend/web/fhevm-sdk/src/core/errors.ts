@@ -0,0 +1,202 @@
+/**
+ * FHEVM SDK Errors - Universal SDK
+ * Typed errors with stable codes, so callers never match on message text
+ */
+
+export type FhevmErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'INVALID_CONFIG'
+  | 'INVALID_INPUT'
+  | 'INVALID_HANDLE'
+  | 'MALFORMED_ENCRYPTED_INPUT'
+  | 'RELAYER_UNAVAILABLE'
+  | 'SIGNATURE_REJECTED'
+  | 'ACL_DENIED'
+  | 'PROOF_VERIFICATION_FAILED'
+  | 'TRANSACTION_FAILED'
+  | 'ABORTED'
+  | 'UNSUPPORTED_CHAIN';
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'FhevmError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class NotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initializeFheInstance() first.', cause?: unknown) {
+    super('NOT_INITIALIZED', message, cause);
+    this.name = 'NotInitializedError';
+  }
+}
+
+export class InvalidConfigError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('INVALID_CONFIG', message, cause);
+    this.name = 'InvalidConfigError';
+  }
+}
+
+/**
+ * A cleartext or argument that cannot be encrypted/decrypted as given
+ */
+export class InvalidInputError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('INVALID_INPUT', message, cause);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class InvalidHandleError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('INVALID_HANDLE', message, cause);
+    this.name = 'InvalidHandleError';
+  }
+}
+
+/**
+ * Thrown when the relayer returns an encrypted input that does not have the
+ * expected handles/inputProof shape
+ */
+export class MalformedEncryptedInputError extends FhevmError {
+  readonly result: unknown;
+
+  constructor(message: string, result: unknown) {
+    super('MALFORMED_ENCRYPTED_INPUT', `Malformed encrypted input: ${message}`);
+    this.name = 'MalformedEncryptedInputError';
+    this.result = result;
+  }
+}
+
+export class RelayerUnavailableError extends FhevmError {
+  constructor(message = 'Decryption service is temporarily unavailable. Please try again later.', cause?: unknown) {
+    super('RELAYER_UNAVAILABLE', message, cause);
+    this.name = 'RelayerUnavailableError';
+  }
+}
+
+export class SignatureRejectedError extends FhevmError {
+  constructor(message = 'Signature request was rejected by the user.', cause?: unknown) {
+    super('SIGNATURE_REJECTED', message, cause);
+    this.name = 'SignatureRejectedError';
+  }
+}
+
+/**
+ * The ACL does not allow this user/contract to decrypt the handle
+ */
+export class AclDeniedError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('ACL_DENIED', message, cause);
+    this.name = 'AclDeniedError';
+  }
+}
+
+/**
+ * Missing or invalid KMS / coprocessor proof
+ */
+export class ProofVerificationError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('PROOF_VERIFICATION_FAILED', message, cause);
+    this.name = 'ProofVerificationError';
+  }
+}
+
+export interface TransactionFailureDetails {
+  /** Hash of the failed transaction - absent when it never reached the mempool */
+  hash?: string;
+  /** Decoded revert reason, e.g. 'Medical case already exists' or 'CaseNotFound(42)' */
+  revertReason?: string;
+}
+
+export class TransactionFailedError extends FhevmError {
+  readonly hash?: string;
+  readonly revertReason?: string;
+
+  constructor(message: string, cause?: unknown, details: TransactionFailureDetails = {}) {
+    super('TRANSACTION_FAILED', message, cause);
+    this.name = 'TransactionFailedError';
+    this.hash = details.hash;
+    this.revertReason = details.revertReason;
+  }
+}
+
+/**
+ * The caller cancelled the operation through its AbortSignal
+ */
+export class OperationAbortedError extends FhevmError {
+  constructor(message = 'Operation was aborted.', cause?: unknown) {
+    super('ABORTED', message, cause);
+    this.name = 'OperationAbortedError';
+  }
+}
+
+/**
+ * The wallet is on a chain with no known FHEVM deployment
+ */
+export class UnsupportedChainError extends FhevmError {
+  readonly chainId: number;
+
+  constructor(chainId: number, cause?: unknown) {
+    super('UNSUPPORTED_CHAIN', `Chain ${chainId} has no FHEVM deployment. Switch to a supported network.`, cause);
+    this.name = 'UnsupportedChainError';
+    this.chainId = chainId;
+  }
+}
+
+export function isFhevmError(error: unknown): error is FhevmError {
+  return error instanceof FhevmError;
+}
+
+const NETWORK_FAILURE_PATTERNS = ['Failed to fetch', 'NetworkError', 'fetch failed', 'ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT'];
+const ACL_DENIED_PATTERN = /is not authorized to user decrypt|is not allowed for public decryption/i;
+const INVALID_HANDLE_PATTERN = /Handle .* is not of valid (length|type)/i;
+const PROOF_FAILURE_PATTERN = /signers threshold is not reached|is not in the list of (KMS|coprocessor) signers|InvalidKMSSignatures|InvalidInputProof/i;
+
+/**
+ * Map an error from the relayer SDK, wallet or RPC onto the SDK's typed
+ * errors. Errors that match no known class are returned unchanged.
+ */
+export function toFhevmError(error: unknown): unknown {
+  if (error instanceof FhevmError) return error;
+
+  const err = error as any;
+  const message: string = err?.message ?? String(error);
+  const cause = err?.cause;
+
+  if (err?.code === 4001 || err?.code === 'ACTION_REJECTED' || err?.info?.error?.code === 4001 || /user (rejected|denied)/i.test(message)) {
+    return new SignatureRejectedError(undefined, error);
+  }
+
+  if (cause?.code === 'RELAYER_FETCH_ERROR' && (cause.status === 429 || cause.status >= 500)) {
+    return new RelayerUnavailableError(undefined, error);
+  }
+  if (NETWORK_FAILURE_PATTERNS.some(pattern => message.includes(pattern))) {
+    return new RelayerUnavailableError(undefined, error);
+  }
+
+  if (ACL_DENIED_PATTERN.test(message)) {
+    return new AclDeniedError(message, error);
+  }
+  if (INVALID_HANDLE_PATTERN.test(message)) {
+    return new InvalidHandleError(message, error);
+  }
+  if (PROOF_FAILURE_PATTERN.test(message)) {
+    return new ProofVerificationError(message, error);
+  }
+
+  return error;
+}
+
+/**
+ * Error code for UI state - '' when the error is not an FhevmError
+ */
+export function getErrorCode(error: unknown): FhevmErrorCode | '' {
+  return error instanceof FhevmError ? error.code : '';
+}
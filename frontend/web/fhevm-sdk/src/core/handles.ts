@@ -0,0 +1,106 @@
+/**
+ * FHEVM Handles - Universal SDK
+ * Helpers for reading the metadata encoded in 32-byte ciphertext handles
+ */
+
+import { ethers } from 'ethers';
+import { FheType } from './encryption.js';
+import { InvalidHandleError, InvalidInputError } from './errors.js';
+
+/**
+ * FheTypeId stored in byte 30 of a handle (euint4 = 1 is deprecated)
+ */
+export const FHE_TYPE_IDS: Record<number, FheType> = {
+  0: 'ebool',
+  2: 'euint8',
+  3: 'euint16',
+  4: 'euint32',
+  5: 'euint64',
+  6: 'euint128',
+  7: 'eaddress',
+  8: 'euint256',
+};
+
+/**
+ * Solidity type used to ABI-encode the cleartext of each FHE type
+ */
+export const FHE_SOLIDITY_TYPES: Record<FheType, string> = {
+  ebool: 'bool',
+  euint8: 'uint8',
+  euint16: 'uint16',
+  euint32: 'uint32',
+  euint64: 'uint64',
+  euint128: 'uint128',
+  euint256: 'uint256',
+  eaddress: 'address',
+};
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+/**
+ * Lower-case 0x-prefixed hex form of a handle
+ */
+export function normalizeHandle(handle: string | Uint8Array): string {
+  const hex = typeof handle === 'string' ? handle : ethers.hexlify(handle);
+  if (!ethers.isHexString(hex, 32)) {
+    throw new InvalidHandleError(`Invalid ciphertext handle ${hex}: expected 32 bytes`);
+  }
+  return hex.toLowerCase();
+}
+
+/**
+ * FHE type encoded in the handle
+ */
+export function getHandleType(handle: string | Uint8Array): FheType {
+  const hex = normalizeHandle(handle);
+  const typeId = parseInt(hex.slice(-4, -2), 16);
+  const type = FHE_TYPE_IDS[typeId];
+  if (!type) {
+    throw new InvalidHandleError(`Invalid ciphertext handle ${hex}: unknown FHE type id ${typeId}`);
+  }
+  return type;
+}
+
+/**
+ * Cleartext of a decrypted handle: boolean for ebool, checksummed address
+ * for eaddress, bigint for every euint type
+ */
+export type ClearValue = bigint | boolean | string;
+
+/**
+ * Convert a raw relayer cleartext into the JS type matching the handle's FHE type
+ */
+export function decodeClearValue(handle: string | Uint8Array, raw: unknown): ClearValue {
+  if (raw === undefined || raw === null) {
+    throw new InvalidHandleError(`No cleartext returned for handle ${normalizeHandle(handle)}`);
+  }
+
+  const type = getHandleType(handle);
+  const value = typeof raw === 'boolean' ? BigInt(raw) : BigInt(raw as bigint | number | string);
+
+  if (type === 'ebool') {
+    return value !== 0n;
+  }
+  if (type === 'eaddress') {
+    return ethers.getAddress(ethers.toBeHex(value, 20));
+  }
+  return value;
+}
+
+/**
+ * Opt-in conversion of a cleartext to a JS number. Throws instead of
+ * silently losing precision above Number.MAX_SAFE_INTEGER.
+ */
+export function toSafeNumber(value: ClearValue): number {
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') {
+    throw new InvalidInputError(`Cannot convert address ${value} to a number`);
+  }
+  if (value > BigInt(Number.MAX_SAFE_INTEGER) || value < BigInt(Number.MIN_SAFE_INTEGER)) {
+    throw new InvalidInputError(`Value ${value} exceeds Number.MAX_SAFE_INTEGER; keep it as a bigint`);
+  }
+  return Number(value);
+}
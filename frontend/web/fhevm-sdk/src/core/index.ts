@@ -5,6 +5,17 @@
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
+export * from './client.js';
+export * from './networks.js';
+export * from './encryption.js';
+export * from './decryption.js';
+export * from './handles.js';
 export * from './contracts.js';
-
-
+export * from './errors.js';
+export * from './retry.js';
+export * from './provider.js';
+export * from './mock.js';
+export * from './store.js';
+export * from './acl.js';
+export * from './transactions.js';
+export * from './assignments.js';
@@ -0,0 +1,90 @@
+/**
+ * FHEVM Mock Mode - Universal SDK
+ * Runs against a local Hardhat FHEVM node through @fhevm/mock-utils: real
+ * handles, ACL checks and decryptions, with no relayer or network access
+ */
+
+import { ethers } from 'ethers';
+import { FhevmNetworkConfig } from './networks.js';
+import { InvalidConfigError, toFhevmError } from './errors.js';
+import { resolveNodeSigner } from './provider.js';
+
+/**
+ * Shape of the `fhevm_relayer_metadata` answer of an FHEVM Hardhat node
+ */
+interface MockRelayerMetadata {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: `0x${string}`;
+  KMSVerifierAddress: `0x${string}`;
+  InputVerifierAddress: `0x${string}`;
+}
+
+async function loadMockUtils() {
+  try {
+    return await import('@fhevm/mock-utils');
+  } catch (error) {
+    throw new InvalidConfigError('Mock mode needs the @fhevm/mock-utils package. Install it with `npm install -D @fhevm/mock-utils`.', error);
+  }
+}
+
+/**
+ * Create a MockFhevmInstance bound to a Hardhat node. Contract addresses are
+ * taken from the node itself, so redeploying the FHEVM contracts just works.
+ */
+export async function createMockFheInstance(
+  network: FhevmNetworkConfig,
+  options: { rpcUrl?: string; signer?: any; privateKey?: string }
+) {
+  const endpoint = options.rpcUrl || network.rpcUrl;
+  if (!endpoint) {
+    throw new InvalidConfigError('Mock mode needs the RPC URL of a local Hardhat FHEVM node (e.g. http://127.0.0.1:8545).');
+  }
+
+  try {
+    console.log('🧪 Initializing mock FHEVM instance against', endpoint);
+
+    const { MockFhevmInstance } = await loadMockUtils();
+    const provider = new ethers.JsonRpcProvider(endpoint);
+
+    let metadata: MockRelayerMetadata;
+    try {
+      metadata = await provider.send('fhevm_relayer_metadata', []);
+    } catch (error) {
+      throw new InvalidConfigError(`${endpoint} is not an FHEVM Hardhat node (fhevm_relayer_metadata failed). Start it with \`npx hardhat node\`.`, error);
+    }
+
+    const { chainId } = await provider.getNetwork();
+    if (Number(chainId) !== network.chainId) {
+      throw new InvalidConfigError(`Mock node ${endpoint} is on chain ${chainId}, expected ${network.chainId}`);
+    }
+
+    const instance = await MockFhevmInstance.create(
+      provider,
+      provider,
+      {
+        aclContractAddress: metadata.ACLAddress,
+        kmsContractAddress: metadata.KMSVerifierAddress,
+        inputVerifierContractAddress: metadata.InputVerifierAddress,
+        verifyingContractAddressDecryption: network.verifyingContractAddressDecryption as `0x${string}`,
+        verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification as `0x${string}`,
+        chainId: network.chainId,
+        gatewayChainId: metadata.gatewayChainId ?? network.gatewayChainId,
+      },
+      {
+        // Signers, threshold and EIP-712 domains are read from the deployed verifiers
+        inputVerifierProperties: {},
+        kmsVerifierProperties: {},
+      }
+    );
+
+    // A private key (e.g. a Hardhat test account) signs on the same node
+    const signer = resolveNodeSigner(provider, options.signer, options.privateKey);
+
+    console.log('✅ Mock FHEVM instance created');
+    return { instance, signer };
+  } catch (err) {
+    console.error('Mock FHEVM instance creation failed:', err);
+    throw toFhevmError(err);
+  }
+}
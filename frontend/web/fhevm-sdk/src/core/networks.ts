@@ -0,0 +1,121 @@
+/**
+ * FHEVM Network Profiles - Universal SDK
+ * Named presets and validation for the networks an FHEVM instance can target
+ */
+
+import { ethers } from 'ethers';
+import { InvalidConfigError } from './errors.js';
+
+/**
+ * Everything the relayer SDK needs to talk to one FHEVM deployment
+ */
+export interface FhevmNetworkConfig {
+  /** FHEVM host chain id */
+  chainId: number;
+  /** Gateway chain id used for EIP-712 decryption/input domains */
+  gatewayChainId: number;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  /** DECRYPTION_ADDRESS on the gateway chain */
+  verifyingContractAddressDecryption: string;
+  /** INPUT_VERIFICATION_ADDRESS on the gateway chain */
+  verifyingContractAddressInputVerification: string;
+  relayerUrl: string;
+  /** JSON-RPC endpoint of the host chain, used when no wallet provider is available */
+  rpcUrl?: string;
+}
+
+export type FhevmNetworkPreset = 'sepolia' | 'hardhat';
+
+export const FHEVM_NETWORKS: Record<FhevmNetworkPreset, FhevmNetworkConfig> = {
+  sepolia: {
+    chainId: 11155111,
+    gatewayChainId: 10901,
+    aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+    kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+    inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+    verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+    verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+    relayerUrl: 'https://relayer.testnet.zama.org',
+    rpcUrl: 'https://ethereum-sepolia-rpc.publicnode.com',
+  },
+  // Addresses deployed by @fhevm/hardhat-plugin on a local `npx hardhat node`
+  hardhat: {
+    chainId: 31337,
+    gatewayChainId: 10901,
+    aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+    kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+    inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+    verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+    verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+    relayerUrl: 'http://localhost:3000',
+    rpcUrl: 'http://127.0.0.1:8545',
+  },
+};
+
+const ADDRESS_FIELDS = [
+  'aclContractAddress',
+  'kmsContractAddress',
+  'inputVerifierContractAddress',
+  'verifyingContractAddressDecryption',
+  'verifyingContractAddressInputVerification',
+] as const;
+
+const CHAIN_ID_FIELDS = ['chainId', 'gatewayChainId'] as const;
+
+/**
+ * First candidate (preset name or profile) deployed on the given chain,
+ * falling back to the built-in presets
+ */
+export function findNetworkForChain(
+  chainId: number,
+  candidates: (FhevmNetworkPreset | Partial<FhevmNetworkConfig>)[] = []
+): FhevmNetworkConfig | null {
+  for (const candidate of [...candidates, ...(Object.keys(FHEVM_NETWORKS) as FhevmNetworkPreset[])]) {
+    const network = resolveNetworkConfig(candidate);
+    if (network.chainId === chainId) return network;
+  }
+  return null;
+}
+
+/**
+ * Resolve a preset name or custom profile into a validated network config.
+ * Defaults to Sepolia when nothing is given.
+ */
+export function resolveNetworkConfig(
+  network: FhevmNetworkPreset | Partial<FhevmNetworkConfig> = 'sepolia'
+): FhevmNetworkConfig {
+  if (typeof network === 'string') {
+    const preset = FHEVM_NETWORKS[network];
+    if (!preset) {
+      throw new InvalidConfigError(`Unknown FHEVM network preset "${network}". Available presets: ${Object.keys(FHEVM_NETWORKS).join(', ')}`);
+    }
+    return { ...preset };
+  }
+
+  const missing: string[] = [];
+  const invalid: string[] = [];
+
+  for (const field of CHAIN_ID_FIELDS) {
+    const value = network[field];
+    if (value === undefined || value === null) missing.push(field);
+    else if (!Number.isInteger(value) || value <= 0) invalid.push(field);
+  }
+  for (const field of ADDRESS_FIELDS) {
+    const value = network[field];
+    if (!value) missing.push(field);
+    else if (!ethers.isAddress(value)) invalid.push(field);
+  }
+  if (!network.relayerUrl) missing.push('relayerUrl');
+
+  if (missing.length > 0 || invalid.length > 0) {
+    const problems = [
+      missing.length > 0 ? `missing: ${missing.join(', ')}` : '',
+      invalid.length > 0 ? `invalid: ${invalid.join(', ')}` : '',
+    ].filter(Boolean);
+    throw new InvalidConfigError(`Invalid FHEVM network config (${problems.join('; ')})`);
+  }
+
+  return { ...(network as FhevmNetworkConfig) };
+}
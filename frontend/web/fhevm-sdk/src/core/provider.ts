@@ -0,0 +1,128 @@
+/**
+ * FHEVM Node Provider - Universal SDK
+ * EIP-1193 provider backed by a JSON-RPC endpoint and an optional ethers
+ * Signer, for running the relayer SDK outside the browser
+ */
+
+import { ethers } from 'ethers';
+import { InvalidConfigError } from './errors.js';
+
+export interface Eip1193Provider {
+  request(args: { method: string; params?: any[] }): Promise<any>;
+  on(event: string, listener: (...args: any[]) => void): void;
+  removeListener(event: string, listener: (...args: any[]) => void): void;
+}
+
+/**
+ * Turn a JSON-RPC transaction object (hex quantities, `gas`) into an
+ * ethers TransactionRequest
+ */
+function toTransactionRequest(tx: any): ethers.TransactionRequest {
+  const request: ethers.TransactionRequest = {
+    to: tx.to ?? undefined,
+    from: tx.from ?? undefined,
+    data: tx.data ?? tx.input ?? undefined,
+    value: tx.value ?? undefined,
+    nonce: tx.nonce !== undefined ? Number(tx.nonce) : undefined,
+    gasLimit: tx.gas ?? tx.gasLimit ?? undefined,
+    gasPrice: tx.gasPrice ?? undefined,
+    maxFeePerGas: tx.maxFeePerGas ?? undefined,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas ?? undefined,
+    type: tx.type !== undefined ? Number(tx.type) : undefined,
+    accessList: tx.accessList ?? undefined,
+  };
+  if (tx.chainId !== undefined) request.chainId = BigInt(tx.chainId);
+  return request;
+}
+
+/**
+ * Resolve the signer a Node.js client should use - an ethers Signer is
+ * connected to the provider when it has none, a private key becomes a Wallet
+ */
+export function resolveNodeSigner(
+  provider: ethers.JsonRpcProvider,
+  signer?: any,
+  privateKey?: string
+): ethers.Signer | null {
+  if (signer && privateKey) {
+    throw new InvalidConfigError('Pass either a signer or a privateKey, not both.');
+  }
+  if (privateKey) {
+    try {
+      return new ethers.Wallet(privateKey, provider);
+    } catch (error) {
+      throw new InvalidConfigError('Invalid private key.', error);
+    }
+  }
+  if (!signer) return null;
+  if (!signer.provider && typeof signer.connect === 'function') {
+    return signer.connect(provider);
+  }
+  return signer;
+}
+
+/**
+ * EIP-1193 wrapper over a JsonRpcProvider. Account and signing methods are
+ * answered by the signer; everything else is forwarded to the RPC node.
+ */
+export function createNodeEip1193Provider(provider: ethers.JsonRpcProvider, signer: ethers.Signer | null): Eip1193Provider {
+  const requireSigner = (method: string) => {
+    if (!signer) {
+      throw new InvalidConfigError(`${method} needs a signer. Pass a signer or privateKey when creating the client.`);
+    }
+    return signer;
+  };
+
+  const assertOwnAddress = async (address: string | undefined, method: string) => {
+    const own = await requireSigner(method).getAddress();
+    if (address && address.toLowerCase() !== own.toLowerCase()) {
+      throw new InvalidConfigError(`${method} requested for ${address}, but the signer is ${own}`);
+    }
+  };
+
+  return {
+    request: async ({ method, params = [] }) => {
+      switch (method) {
+        case 'eth_chainId': {
+          const { chainId } = await provider.getNetwork();
+          return ethers.toQuantity(chainId);
+        }
+        case 'net_version': {
+          const { chainId } = await provider.getNetwork();
+          return chainId.toString();
+        }
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return signer ? [await signer.getAddress()] : [];
+        case 'eth_sendTransaction': {
+          const tx = params[0] ?? {};
+          await assertOwnAddress(tx.from, method);
+          const response = await requireSigner(method).sendTransaction(toTransactionRequest(tx));
+          return response.hash;
+        }
+        case 'eth_signTransaction': {
+          const tx = params[0] ?? {};
+          await assertOwnAddress(tx.from, method);
+          return requireSigner(method).signTransaction(toTransactionRequest(tx));
+        }
+        case 'personal_sign': {
+          const [message, address] = params;
+          await assertOwnAddress(address, method);
+          return requireSigner(method).signMessage(ethers.isHexString(message) ? ethers.getBytes(message) : message);
+        }
+        case 'eth_signTypedData_v4': {
+          const [address, json] = params;
+          await assertOwnAddress(address, method);
+          const { domain, types, message } = typeof json === 'string' ? JSON.parse(json) : json;
+          // ethers derives EIP712Domain from the domain itself
+          const { EIP712Domain: _domain, ...messageTypes } = types;
+          return requireSigner(method).signTypedData(domain, messageTypes, message);
+        }
+        default:
+          return provider.send(method, params);
+      }
+    },
+    on: () => {},
+    removeListener: () => {},
+  };
+}
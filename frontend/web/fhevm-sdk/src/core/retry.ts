@@ -0,0 +1,146 @@
+/**
+ * FHEVM Relayer Retry Policy - Universal SDK
+ * Timeouts, exponential backoff with jitter and cancellation for relayer calls
+ */
+
+import { OperationAbortedError, RelayerUnavailableError, toFhevmError } from './errors.js';
+
+export interface RetryPolicy {
+  /** Total attempts including the first one - 1 disables retries */
+  maxAttempts: number;
+  /** Delay before the first retry, doubled on every further attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Per-attempt timeout - 0 disables it */
+  timeoutMs: number;
+  /** Randomize each delay between 0 and the computed backoff ("full jitter") */
+  jitter: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: 60_000,
+  jitter: true,
+};
+
+/**
+ * Per-call options accepted by every relayer operation
+ */
+export interface RelayerCallOptions {
+  /** Cancels the call, including any pending backoff */
+  signal?: AbortSignal;
+  /** Overrides parts of the client's retry policy for this call only */
+  retry?: Partial<RetryPolicy>;
+}
+
+export function resolveRetryPolicy(...overrides: (Partial<RetryPolicy> | undefined)[]): RetryPolicy {
+  const policy = Object.assign({}, DEFAULT_RETRY_POLICY, ...overrides.filter(Boolean)) as RetryPolicy;
+  policy.maxAttempts = Math.max(1, Math.floor(policy.maxAttempts));
+  return policy;
+}
+
+/**
+ * Only failures where trying again can help - relayer outages, rate limits
+ * and timeouts. Rejected signatures, ACL denials and bad input fail at once.
+ */
+export function isTransientError(error: unknown): boolean {
+  return toFhevmError(error) instanceof RelayerUnavailableError;
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based)
+ */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return policy.jitter ? Math.floor(Math.random() * delay) : delay;
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new OperationAbortedError(undefined, signal.reason);
+}
+
+/**
+ * Reject when the signal aborts or the timeout elapses, whichever is first.
+ * The relayer SDK cannot cancel a request, so the call itself is abandoned.
+ */
+function raceAttempt<T>(promise: Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  if (!signal && timeoutMs <= 0) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const onAbort = () => {
+      cleanup();
+      reject(new OperationAbortedError(undefined, signal?.reason));
+    };
+    const cleanup = () => {
+      if (timer !== undefined) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => {
+        cleanup();
+        reject(new RelayerUnavailableError(`Relayer did not respond within ${timeoutMs}ms`));
+      }, timeoutMs);
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      error => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Backoff delay - an abort clears the timer instead of leaving it to fire
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OperationAbortedError(undefined, signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run a relayer operation under a retry policy. Errors are mapped with
+ * toFhevmError; the last one is thrown once attempts are exhausted.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+
+    try {
+      return await raceAttempt(operation(), policy.timeoutMs, signal);
+    } catch (error) {
+      const mapped = toFhevmError(error);
+      if (mapped instanceof OperationAbortedError) throw mapped;
+      if (attempt >= policy.maxAttempts || !isTransientError(mapped)) throw mapped;
+
+      const delay = backoffDelay(policy, attempt);
+      console.warn(`⚠️ Relayer call failed (attempt ${attempt}/${policy.maxAttempts}), retrying in ${delay}ms:`, mapped);
+      await sleep(delay, signal);
+    }
+  }
+}
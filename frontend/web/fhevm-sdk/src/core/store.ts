@@ -0,0 +1,370 @@
+/**
+ * FHEVM Store - Universal SDK
+ * Framework-free observable state (instance status, wallet, chain, pending
+ * operations). React binds it with useSyncExternalStore; Svelte, Lit or
+ * plain JS can subscribe directly.
+ */
+
+import { setDefaultClient } from './fhevm.js';
+import { FheClient, FheClientOptions, resolveClientNetwork } from './client.js';
+import { FhevmNetworkConfig, findNetworkForChain } from './networks.js';
+import { FhevmErrorCode, UnsupportedChainError, getErrorCode, toFhevmError } from './errors.js';
+
+export type FhevmStatus = 'idle' | 'loading' | 'ready' | 'error' | 'unsupported-chain';
+
+export type FhevmOperationKind = 'encrypt' | 'decrypt' | 'transaction';
+
+export interface FhevmPendingOperation {
+  id: number;
+  kind: FhevmOperationKind;
+  /** Free-form description for UIs, e.g. the contract being called */
+  label?: string;
+  startedAt: number;
+}
+
+export interface FhevmWalletState {
+  address: string;
+  isConnected: boolean;
+  isConnecting: boolean;
+  error: string;
+}
+
+export interface FhevmState {
+  status: FhevmStatus;
+  instance: any;
+  /** Network the instance was (or is being) created for */
+  network: FhevmNetworkConfig | null;
+  error: string;
+  errorCode: FhevmErrorCode | '';
+  wallet: FhevmWalletState;
+  /** Chain the wallet is on - 0 when disconnected */
+  chainId: number;
+  pending: FhevmPendingOperation[];
+}
+
+export type FhevmStoreListener = () => void;
+
+export interface FhevmStoreOptions {
+  /**
+   * Also make the store's client the default one behind the free functions
+   * (initializeFheInstance, decryptValue, ...) - set for getFhevmStore()
+   */
+  installDefaultClient?: boolean;
+}
+
+const INITIAL_STATE: FhevmState = {
+  status: 'idle',
+  instance: null,
+  network: null,
+  error: '',
+  errorCode: '',
+  wallet: {
+    address: '',
+    isConnected: false,
+    isConnecting: false,
+    error: '',
+  },
+  chainId: 0,
+  pending: [],
+};
+
+export class FhevmStore {
+  private state: FhevmState = INITIAL_STATE;
+  private listeners = new Set<FhevmStoreListener>();
+  private nextOperationId = 1;
+  private walletWatchers = 0;
+  private detachWallet: (() => void) | null = null;
+  private initialization = 0;
+  private client = new FheClient();
+  private readonly installDefaultClient: boolean;
+
+  constructor(options: FhevmStoreOptions = {}) {
+    this.installDefaultClient = options.installDefaultClient ?? false;
+  }
+
+  /**
+   * Register a listener called after every state change. Returns the
+   * unsubscribe function. Bound, so it can be passed around as-is.
+   */
+  subscribe = (listener: FhevmStoreListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Current state - a new object after each change, never mutated in place
+   */
+  getSnapshot = (): FhevmState => this.state;
+
+  setState(patch: Partial<FhevmState> | ((state: FhevmState) => Partial<FhevmState>)) {
+    const changes = typeof patch === 'function' ? patch(this.state) : patch;
+    this.state = { ...this.state, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+
+  private setWallet(patch: Partial<FhevmWalletState>) {
+    this.setState(state => ({ wallet: { ...state.wallet, ...patch } }));
+  }
+
+  /**
+   * Client the hooks encrypt and decrypt with - replaced on every
+   * (re)initialization, so read it at call time rather than keeping it
+   */
+  getClient(): FheClient {
+    return this.client;
+  }
+
+  private setClient(client: FheClient) {
+    this.client = client;
+    if (this.installDefaultClient) setDefaultClient(client);
+  }
+
+  /**
+   * Initialize the store's FHEVM client and track its status
+   */
+  async initialize(options?: FheClientOptions) {
+    // Only the latest call may install its client and publish its result
+    const initialization = ++this.initialization;
+
+    try {
+      // The previous instance is dropped before the new one exists
+      const network = resolveClientNetwork(options);
+      this.setClient(new FheClient());
+      this.setState({ status: 'loading', instance: null, network, error: '', errorCode: '' });
+
+      const client = new FheClient(options);
+      await client.initialize();
+      const instance = client.getInstance();
+      if (initialization !== this.initialization) return instance;
+      this.setClient(client);
+      this.setState({ status: 'ready', instance });
+      console.log('✅ FHEVM initialized');
+      return instance;
+    } catch (err) {
+      if (initialization !== this.initialization) return null;
+      const fhevmError = toFhevmError(err);
+      this.setState({
+        status: 'error',
+        error: fhevmError instanceof Error ? fhevmError.message : 'Unknown error',
+        errorCode: getErrorCode(fhevmError),
+      });
+      console.error('❌ FHEVM initialization failed:', err);
+      return null;
+    }
+  }
+
+  /**
+   * Ask the injected wallet for accounts and record address + chain
+   */
+  async connectWallet() {
+    if (typeof window === 'undefined' || !window.ethereum) {
+      this.setWallet({ error: 'MetaMask not found. Please install MetaMask.' });
+      return;
+    }
+
+    this.setWallet({ isConnecting: true, error: '' });
+
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+      this.setState(state => ({
+        wallet: { ...state.wallet, address: accounts[0], isConnected: true },
+        chainId: parseInt(chainId, 16),
+      }));
+
+      console.log('✅ Wallet connected:', accounts[0]);
+    } catch (err) {
+      this.setWallet({ error: err instanceof Error ? err.message : 'Connection failed' });
+      console.error('❌ Wallet connection failed:', err);
+    } finally {
+      this.setWallet({ isConnecting: false });
+    }
+  }
+
+  disconnectWallet() {
+    this.setState({ wallet: INITIAL_STATE.wallet, chainId: 0 });
+    console.log('🔌 Wallet disconnected');
+  }
+
+  /**
+   * Follow chainChanged/accountsChanged on the injected wallet. Calls are
+   * reference counted; the listeners go away with the last returned cleanup.
+   */
+  watchWallet(): () => void {
+    if (typeof window === 'undefined' || !window.ethereum) return () => {};
+
+    if (this.walletWatchers++ === 0) {
+      const ethereum = window.ethereum;
+
+      const handleChainChanged = (chainIdHex: string) => {
+        const chainId = parseInt(chainIdHex, 16);
+        this.setState({ chainId });
+        console.log('🔄 Chain changed to:', chainId);
+      };
+
+      const handleAccountsChanged = (accounts: string[]) => {
+        if (accounts.length === 0) {
+          // User disconnected
+          this.setState(state => ({ wallet: { ...state.wallet, address: '', isConnected: false }, chainId: 0 }));
+        } else {
+          this.setWallet({ address: accounts[0] });
+        }
+      };
+
+      ethereum.on('chainChanged', handleChainChanged);
+      ethereum.on('accountsChanged', handleAccountsChanged);
+      this.detachWallet = () => {
+        ethereum.removeListener('chainChanged', handleChainChanged);
+        ethereum.removeListener('accountsChanged', handleAccountsChanged);
+      };
+
+      // Pick up an already-authorized wallet without prompting
+      Promise.all([ethereum.request({ method: 'eth_accounts' }), ethereum.request({ method: 'eth_chainId' })])
+        .then(([accounts, chainIdHex]: [string[], string]) => {
+          this.setState(state => ({
+            wallet: accounts.length > 0 ? { ...state.wallet, address: accounts[0], isConnected: true } : state.wallet,
+            chainId: parseInt(chainIdHex, 16),
+          }));
+        })
+        .catch(err => console.warn('⚠️ Could not read wallet state:', err));
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      if (--this.walletWatchers === 0) {
+        this.detachWallet?.();
+        this.detachWallet = null;
+      }
+    };
+  }
+
+  /**
+   * Leave the instance torn down because the wallet's chain has no FHEVM
+   * deployment
+   */
+  private markUnsupportedChain(chainId: number) {
+    // Invalidate any initialization still in flight
+    this.initialization++;
+    this.setClient(new FheClient());
+    const error = new UnsupportedChainError(chainId);
+    this.setState({ status: 'unsupported-chain', instance: null, network: null, error: error.message, errorCode: error.code });
+    console.warn('⚠️', error.message);
+  }
+
+  /**
+   * Initialize now and again whenever the wallet switches chain or account.
+   * A chain switch re-creates the instance for the matching network - the
+   * configured one or a built-in preset - or sets 'unsupported-chain'.
+   * An unknown or disconnected wallet keeps the current instance.
+   * Returns a cleanup that stops following.
+   */
+  followWallet(options: FheClientOptions = {}): () => void {
+    const stopWatching = this.watchWallet();
+    const candidates = options.network ? [options.network] : [];
+    let last: { chainId: number; address: string } | null = null;
+
+    const sync = () => {
+      const chainId = this.state.chainId;
+      const address = this.state.wallet.address.toLowerCase();
+      if (last && last.chainId === chainId && last.address === address) return;
+
+      const previous = last;
+      last = { chainId, address };
+
+      if (chainId === 0) {
+        // Wallet not known yet - start with the configured network
+        if (!previous) void this.initialize(options);
+        return;
+      }
+
+      const network = findNetworkForChain(chainId, candidates);
+      if (!network) {
+        this.markUnsupportedChain(chainId);
+        return;
+      }
+
+      // The first time the wallet becomes known is not an account switch
+      const accountSwitched = previous !== null && previous.chainId !== 0 && previous.address !== address;
+      const chainSwitched = this.state.network?.chainId !== chainId || this.state.status === 'unsupported-chain';
+
+      if (!previous || chainSwitched || accountSwitched) {
+        if (previous) console.log('🔄 Wallet switched chain or account, reinitializing FHEVM for chain', chainId);
+        void this.initialize({ ...options, network });
+      }
+    };
+
+    const unsubscribe = this.subscribe(sync);
+    sync();
+
+    return () => {
+      unsubscribe();
+      stopWatching();
+    };
+  }
+
+  /**
+   * Resolves once the current initialization has finished, successfully or
+   * not, or has been superseded by another one or a reset - check the status
+   * again before relying on the instance
+   */
+  whenSettled(): Promise<void> {
+    const initialization = this.initialization;
+
+    return new Promise(resolve => {
+      let unsubscribe = () => {};
+      const check = () => {
+        const { status } = this.state;
+        const settled = status === 'ready' || status === 'error' || status === 'unsupported-chain';
+        if (settled || initialization !== this.initialization) {
+          unsubscribe();
+          resolve();
+        }
+      };
+      unsubscribe = this.subscribe(check);
+      check();
+    });
+  }
+
+  /**
+   * Run an operation while it is listed in `pending`
+   */
+  async track<T>(kind: FhevmOperationKind, run: () => Promise<T>, label?: string): Promise<T> {
+    const operation: FhevmPendingOperation = { id: this.nextOperationId++, kind, label, startedAt: Date.now() };
+    this.setState(state => ({ pending: [...state.pending, operation] }));
+
+    try {
+      return await run();
+    } finally {
+      this.setState(state => ({ pending: state.pending.filter(op => op.id !== operation.id) }));
+    }
+  }
+
+  /**
+   * True while any operation of the given kind is pending
+   */
+  isPending(kind: FhevmOperationKind): boolean {
+    return this.state.pending.some(op => op.kind === kind);
+  }
+
+  /**
+   * Back to the initial state - listeners stay subscribed
+   */
+  reset() {
+    this.initialization++;
+    this.setClient(new FheClient());
+    this.setState(INITIAL_STATE);
+  }
+}
+
+const defaultStore = new FhevmStore({ installDefaultClient: true });
+
+/**
+ * Store shared by the React hooks and anyone else using the default client
+ */
+export function getFhevmStore(): FhevmStore {
+  return defaultStore;
+}
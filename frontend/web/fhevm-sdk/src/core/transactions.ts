@@ -0,0 +1,232 @@
+/**
+ * FHEVM Transactions - Universal SDK
+ * Lifecycle of a contract write: submitted, mined, confirmed N times,
+ * reverted or replaced - with revert reasons decoded from the contract ABI
+ */
+
+import { ethers } from 'ethers';
+import { FhevmError, TransactionFailedError, toFhevmError } from './errors.js';
+
+/**
+ * Why the wallet swapped the transaction: 'repriced' is a speed-up of the
+ * same call, 'cancelled' a 0-value self-transfer, 'replaced' anything else
+ */
+export type TransactionReplacementReason = 'repriced' | 'cancelled' | 'replaced';
+
+export type TransactionEvent =
+  | { type: 'submitted'; hash: string }
+  | { type: 'replaced'; hash: string; replacementHash: string; reason: TransactionReplacementReason }
+  | { type: 'mined'; hash: string; receipt: ethers.TransactionReceipt }
+  | { type: 'confirmation'; hash: string; confirmations: number; required: number }
+  | { type: 'confirmed'; hash: string; receipt: ethers.TransactionReceipt; confirmations: number }
+  | { type: 'reverted'; hash: string; receipt: ethers.TransactionReceipt; revertReason?: string }
+  | { type: 'failed'; hash?: string; error: unknown };
+
+export type TransactionListener = (event: TransactionEvent) => void;
+
+export interface TrackTransactionOptions {
+  /** Blocks to wait for, counting the one it was mined in - defaults to 1 */
+  confirmations?: number;
+  /** Interface used to decode custom errors - usually `contract.interface` */
+  contractInterface?: ethers.Interface;
+  /** Called for every lifecycle event, in order */
+  onEvent?: TransactionListener;
+}
+
+export interface TransactionResult {
+  /** Hash that was mined - the replacement's when the wallet sped it up */
+  hash: string;
+  receipt: ethers.TransactionReceipt;
+  confirmations: number;
+  /** Original hash when a speed-up replaced it */
+  replacedHash?: string;
+}
+
+// Error(string) and Panic(uint256) decode without any ABI
+const BUILTIN_ERRORS = new ethers.Interface([]);
+
+function findRevertData(error: any): string | undefined {
+  const candidates = [error?.data, error?.data?.data, error?.error?.data, error?.info?.error?.data, error?.info?.error?.data?.data];
+  return candidates.find(data => typeof data === 'string' && ethers.isHexString(data) && data.length >= 10);
+}
+
+function formatError(name: string, args: ReadonlyArray<any>): string {
+  if (name === 'Error') return String(args[0]);
+  return `${name}(${args.map(arg => String(arg)).join(', ')})`;
+}
+
+/**
+ * Human-readable revert reason from an ethers/RPC error - the require()
+ * message, or `Name(args)` for a custom error the interface knows about.
+ * Undefined when the error carries no revert data.
+ */
+export function decodeRevertReason(error: unknown, contractInterface?: ethers.Interface): string | undefined {
+  const err = error as any;
+
+  // Contract calls through ethers have already been decoded against the ABI
+  if (err?.revert?.name) return formatError(err.revert.name, err.revert.args ?? []);
+
+  const data = findRevertData(err);
+  if (data) {
+    for (const iface of [contractInterface, BUILTIN_ERRORS]) {
+      if (!iface) continue;
+      try {
+        const parsed = iface.parseError(data);
+        if (parsed) return formatError(parsed.name, parsed.args);
+      } catch {
+        // Selector unknown to this interface - try the next one
+      }
+    }
+    return `Unknown error ${data.slice(0, 10)}`;
+  }
+
+  if (typeof err?.reason === 'string' && err.reason) return err.reason;
+  return undefined;
+}
+
+/**
+ * Map a send/estimateGas failure: wallet and relayer errors keep their SDK
+ * class, reverts become a TransactionFailedError carrying the reason
+ */
+export function toTransactionError(error: unknown, contractInterface?: ethers.Interface, hash?: string): unknown {
+  const mapped = toFhevmError(error);
+  if (mapped instanceof FhevmError) return mapped;
+
+  const revertReason = decodeRevertReason(error, contractInterface);
+  if (revertReason !== undefined) {
+    return new TransactionFailedError(`Transaction reverted: ${revertReason}`, error, { hash, revertReason });
+  }
+  return mapped;
+}
+
+function notify(listener: TransactionListener | undefined, event: TransactionEvent) {
+  try {
+    listener?.(event);
+  } catch (err) {
+    console.warn('⚠️ Transaction listener failed:', err);
+  }
+}
+
+/**
+ * Receipts carry no revert data - replay the call at its block to get it
+ */
+async function replayRevertReason(
+  tx: ethers.TransactionResponse,
+  receipt: ethers.TransactionReceipt,
+  contractInterface?: ethers.Interface
+): Promise<string | undefined> {
+  try {
+    await tx.provider.call({
+      to: tx.to,
+      from: tx.from,
+      data: tx.data,
+      value: tx.value,
+      blockTag: receipt.blockNumber,
+    });
+    return undefined;
+  } catch (err) {
+    return decodeRevertReason(err, contractInterface);
+  }
+}
+
+/**
+ * Follow a sent transaction until it has the requested confirmations.
+ * Speed-ups are followed transparently; cancellation, replacement and
+ * reverts reject with a TransactionFailedError.
+ */
+export async function trackTransaction(
+  tx: ethers.TransactionResponse,
+  options: TrackTransactionOptions = {}
+): Promise<TransactionResult> {
+  const required = Math.max(1, options.confirmations ?? 1);
+  const emit = (event: TransactionEvent) => notify(options.onEvent, event);
+
+  let current = tx;
+  let replacedHash: string | undefined;
+
+  const fail = (error: unknown) => {
+    emit({ type: 'failed', hash: current.hash, error });
+    return error;
+  };
+
+  emit({ type: 'submitted', hash: tx.hash });
+
+  const waitFor = async (confirmations: number): Promise<ethers.TransactionReceipt> => {
+    for (;;) {
+      try {
+        const receipt = await current.wait(confirmations);
+        if (!receipt) throw new TransactionFailedError(`Transaction ${current.hash} has no receipt`, undefined, { hash: current.hash });
+        return receipt;
+      } catch (err) {
+        if (ethers.isError(err, 'TRANSACTION_REPLACED')) {
+          const reason = err.reason as TransactionReplacementReason;
+          emit({ type: 'replaced', hash: current.hash, replacementHash: err.replacement.hash, reason });
+
+          if (reason === 'repriced') {
+            // Same call with a higher fee - keep following the new hash
+            replacedHash = replacedHash ?? current.hash;
+            current = err.replacement;
+            continue;
+          }
+          throw new TransactionFailedError(
+            `Transaction ${current.hash} was ${reason} by ${err.replacement.hash}`,
+            err,
+            { hash: current.hash }
+          );
+        }
+        if (ethers.isError(err, 'CALL_EXCEPTION') && err.receipt) {
+          // Reverted - the caller decodes the reason
+          return err.receipt;
+        }
+        throw toTransactionError(err, options.contractInterface, current.hash);
+      }
+    }
+  };
+
+  try {
+    let receipt = await waitFor(1);
+
+    if (receipt.status === 0) {
+      const revertReason = await replayRevertReason(current, receipt, options.contractInterface);
+      emit({ type: 'reverted', hash: current.hash, receipt, revertReason });
+      throw new TransactionFailedError(
+        revertReason ? `Transaction reverted: ${revertReason}` : `Transaction ${current.hash} reverted`,
+        undefined,
+        { hash: current.hash, revertReason }
+      );
+    }
+
+    emit({ type: 'mined', hash: current.hash, receipt });
+    emit({ type: 'confirmation', hash: current.hash, confirmations: 1, required });
+
+    for (let confirmations = 2; confirmations <= required; confirmations++) {
+      receipt = await waitFor(confirmations);
+      emit({ type: 'confirmation', hash: current.hash, confirmations, required });
+    }
+
+    emit({ type: 'confirmed', hash: current.hash, receipt, confirmations: required });
+    return { hash: current.hash, receipt, confirmations: required, replacedHash };
+  } catch (err) {
+    throw fail(err);
+  }
+}
+
+/**
+ * Send a transaction and track it - `send` is the contract call, e.g.
+ * `() => contract.createMedicalCase(id, handle, proof)`. Reverts caught at
+ * gas estimation are decoded the same way as mined ones.
+ */
+export async function submitTransaction(
+  send: () => Promise<ethers.TransactionResponse>,
+  options: TrackTransactionOptions = {}
+): Promise<TransactionResult> {
+  let tx: ethers.TransactionResponse;
+  try {
+    tx = await send();
+  } catch (err) {
+    const error = toTransactionError(err, options.contractInterface);
+    notify(options.onEvent, { type: 'failed', error });
+    throw error;
+  }
+  return trackTransaction(tx, options);
+}
@@ -7,6 +7,31 @@
 export * from './core/index.js';
 
 // Framework adapters - explicit exports to avoid conflicts
-export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+export {
+  useWallet,
+  useFhevm,
+  useContract,
+  useDecrypt,
+  useEncrypt,
+  useUserDecrypt,
+  clearUserDecryptCache,
+  useFhevmTransaction,
+  useFhevmStore,
+  useFhevmInstance,
+  FhevmProvider,
+  FhevmContext,
+} from './adapters/react.js';
+export type {
+  FhevmProviderProps,
+  EncryptStage,
+  TypedContractFactory,
+  UseContractOptions,
+  UseContractResult,
+  UserDecryptEntry,
+  UseUserDecryptOptions,
+  TransactionStatus,
+  TransactionReplacement,
+  UseFhevmTransactionOptions,
+} from './adapters/react.js';
 
 
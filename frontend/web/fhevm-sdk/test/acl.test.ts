@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  isHandleAllowed,
+  getHandleAccess,
+  isHandlePubliclyDecryptable,
+  FHEVM_NETWORKS,
+  RelayerUnavailableError,
+} from '../src/core/index.js';
+import { USER_ADDRESS, OTHER_ADDRESS, makeHandle } from './helpers.js';
+
+const acl = new ethers.Interface([
+  'function isAllowed(bytes32 handle, address account) view returns (bool)',
+  'function isAllowedForDecryption(bytes32 handle) view returns (bool)',
+]);
+
+/**
+ * Contract runner answering eth_call against an in-memory ACL
+ */
+function createFakeAcl(allowed: Record<string, string[]>, publicHandles: string[] = []) {
+  return {
+    provider: null,
+    call: vi.fn(async (tx: ethers.TransactionRequest) => {
+      const call = acl.parseTransaction({ data: tx.data as string })!;
+      const handle = (call.args[0] as string).toLowerCase();
+      if (call.name === 'isAllowed') {
+        const granted = (allowed[handle] ?? []).some(account => account.toLowerCase() === (call.args[1] as string).toLowerCase());
+        return acl.encodeFunctionResult('isAllowed', [granted]);
+      }
+      return acl.encodeFunctionResult('isAllowedForDecryption', [publicHandles.includes(handle)]);
+    }),
+  };
+}
+
+describe('ACL reads', () => {
+  it('reports FHE.allow grants per account', async () => {
+    const handle = makeHandle('euint32');
+    const runner = createFakeAcl({ [handle]: [USER_ADDRESS] });
+
+    await expect(isHandleAllowed(handle, USER_ADDRESS, runner)).resolves.toBe(true);
+    await expect(isHandleAllowed(handle, OTHER_ADDRESS, runner)).resolves.toBe(false);
+    await expect(getHandleAccess(handle, [USER_ADDRESS, OTHER_ADDRESS], runner)).resolves.toEqual({
+      [USER_ADDRESS]: true,
+      [OTHER_ADDRESS]: false,
+    });
+  });
+
+  it('accepts byte handles and reads the ACL of the requested network', async () => {
+    const handle = makeHandle('euint32');
+    const runner = createFakeAcl({ [handle]: [USER_ADDRESS] });
+
+    await expect(isHandleAllowed(ethers.getBytes(handle), USER_ADDRESS, runner, { network: 'hardhat' })).resolves.toBe(true);
+    expect(runner.call.mock.calls[0][0].to).toBe(FHEVM_NETWORKS.hardhat.aclContractAddress);
+  });
+
+  it('tells publicly decryptable handles apart', async () => {
+    const [open, sealed] = [makeHandle('ebool'), makeHandle('ebool')];
+    const runner = createFakeAcl({}, [open]);
+
+    await expect(isHandlePubliclyDecryptable(open, runner)).resolves.toBe(true);
+    await expect(isHandlePubliclyDecryptable(sealed, runner)).resolves.toBe(false);
+  });
+
+  it('maps RPC failures onto SDK errors', async () => {
+    const runner = createFakeAcl({});
+    runner.call.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    await expect(isHandleAllowed(makeHandle('euint32'), USER_ADDRESS, runner)).rejects.toBeInstanceOf(RelayerUnavailableError);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  requestAssignment,
+  assignSpecialists,
+  listAssignments,
+  normalizeAddresses,
+  InvalidInputError,
+  TransactionFailedError,
+  TransactionEvent,
+} from '../src/core/index.js';
+import { USER_ADDRESS, OTHER_ADDRESS, createFakeTransaction, encodeRevertReason, FakeTransaction } from './helpers.js';
+
+/**
+ * Stand-in for a typechain contract with the assignment functions
+ */
+function createFakeContract(tx: FakeTransaction = createFakeTransaction()) {
+  return {
+    interface: new ethers.Interface([
+      'function requestAssignment(string caseId)',
+      'function assignSpecialists(string caseId, address[] specialists)',
+    ]),
+    requestAssignment: vi.fn(async (_caseId: string) => tx as any),
+    assignSpecialists: vi.fn(async (_caseId: string, _specialists: string[]) => tx as any),
+    getAssignedSpecialists: vi.fn(async (_caseId: string) => Object.freeze([USER_ADDRESS]) as string[]),
+    getPendingAssignmentRequests: vi.fn(async (_caseId: string) => Object.freeze([OTHER_ADDRESS]) as string[]),
+  };
+}
+
+describe('assignments', () => {
+  it('sends a request through the transaction lifecycle', async () => {
+    const tx = createFakeTransaction();
+    const contract = createFakeContract(tx);
+    const events: TransactionEvent[] = [];
+
+    const result = await requestAssignment(contract, 'case-1', { onEvent: event => events.push(event) });
+
+    expect(contract.requestAssignment).toHaveBeenCalledWith('case-1');
+    expect(result.receipt).toBe(tx.receipt);
+    expect(events.map(event => event.type)).toEqual(['submitted', 'mined', 'confirmation', 'confirmed']);
+  });
+
+  it('surfaces the contract revert reason', async () => {
+    const tx = createFakeTransaction({ status: 0, revertData: encodeRevertReason('Assignment already requested') });
+
+    const failure = await requestAssignment(createFakeContract(tx), 'case-1').catch(err => err);
+
+    expect(failure).toBeInstanceOf(TransactionFailedError);
+    expect(failure.revertReason).toBe('Assignment already requested');
+  });
+
+  it('grants checksummed, de-duplicated addresses', async () => {
+    const contract = createFakeContract();
+
+    await assignSpecialists(contract, 'case-1', [USER_ADDRESS.toLowerCase(), USER_ADDRESS, OTHER_ADDRESS]);
+
+    expect(contract.assignSpecialists).toHaveBeenCalledWith('case-1', [ethers.getAddress(USER_ADDRESS), ethers.getAddress(OTHER_ADDRESS)]);
+  });
+
+  it('rejects invalid or empty grants before the wallet is asked', async () => {
+    const contract = createFakeContract();
+
+    await expect(assignSpecialists(contract, 'case-1', ['0x1234'])).rejects.toThrow(InvalidInputError);
+    await expect(assignSpecialists(contract, 'case-1', [])).rejects.toThrow('No specialists to assign');
+    expect(contract.assignSpecialists).not.toHaveBeenCalled();
+  });
+
+  it('lists granted and pending accounts as plain arrays', async () => {
+    const contract = createFakeContract();
+
+    const assignments = await listAssignments(contract, 'case-1');
+
+    expect(assignments).toEqual({ specialists: [USER_ADDRESS], requests: [OTHER_ADDRESS] });
+    expect(Object.isFrozen(assignments.specialists)).toBe(false);
+    expect(contract.getAssignedSpecialists).toHaveBeenCalledWith('case-1');
+  });
+
+  it('normalizes address lists', () => {
+    expect(normalizeAddresses([OTHER_ADDRESS.toLowerCase(), OTHER_ADDRESS])).toEqual([ethers.getAddress(OTHER_ADDRESS)]);
+    expect(() => normalizeAddresses(['not-an-address'])).toThrow('Invalid address: not-an-address');
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  FheClient,
+  groupPairsByContracts,
+  chunkPairsByBits,
+  MAX_CONTRACTS_PER_SIGNATURE,
+  MAX_DECRYPT_BITS,
+  HandleContractPair,
+} from '../src/core/index.js';
+import { USER_ADDRESS, installBrowserEnvironment, makeHandle } from './helpers.js';
+
+const contractAt = (index: number) => ethers.getAddress(ethers.toBeHex(0x1000 + index, 20));
+
+function createSigner() {
+  return {
+    getAddress: vi.fn(async () => USER_ADDRESS),
+    signTypedData: vi.fn(async () => '0x5151'),
+  };
+}
+
+describe('groupPairsByContracts', () => {
+  it(`covers at most ${MAX_CONTRACTS_PER_SIGNATURE} contracts per group`, () => {
+    const pairs = Array.from({ length: 23 }, (_, i) => ({ handle: makeHandle('euint32'), contractAddress: contractAt(i) }));
+
+    const groups = groupPairsByContracts(pairs);
+
+    expect(groups.map(group => group.length)).toEqual([10, 10, 3]);
+    expect(groups.flat()).toHaveLength(pairs.length);
+    expect(new Set(groups.flat())).toEqual(new Set(pairs));
+  });
+
+  it('keeps every handle of one contract in the same group, whatever the address case', () => {
+    const pairs: HandleContractPair[] = Array.from({ length: 11 }, (_, i) => ({
+      handle: makeHandle('euint32'),
+      contractAddress: contractAt(i),
+    }));
+    const extra = { handle: makeHandle('ebool'), contractAddress: contractAt(10).toLowerCase() };
+
+    const groups = groupPairsByContracts([...pairs, extra]);
+
+    expect(groups).toHaveLength(2);
+    expect(groups[1]).toEqual([pairs[10], extra]);
+  });
+
+  it('returns a single group up to the limit', () => {
+    const pairs = Array.from({ length: MAX_CONTRACTS_PER_SIGNATURE }, (_, i) => ({
+      handle: makeHandle('euint32'),
+      contractAddress: contractAt(i),
+    }));
+
+    expect(groupPairsByContracts(pairs)).toHaveLength(1);
+  });
+});
+
+describe('chunkPairsByBits', () => {
+  const pairsOf = (type: Parameters<typeof makeHandle>[0], count: number) =>
+    Array.from({ length: count }, () => ({ handle: makeHandle(type), contractAddress: contractAt(0) }));
+
+  it(`fills a chunk up to exactly ${MAX_DECRYPT_BITS} bits`, () => {
+    expect(chunkPairsByBits(pairsOf('euint256', 8))).toHaveLength(1);
+    expect(chunkPairsByBits(pairsOf('euint32', 64))).toHaveLength(1);
+  });
+
+  it('starts a new chunk once the next handle would cross the limit', () => {
+    const pairs = [...pairsOf('euint256', 8), ...pairsOf('ebool', 1)];
+
+    const chunks = chunkPairsByBits(pairs);
+
+    expect(chunks.map(chunk => chunk.length)).toEqual([8, 1]);
+    expect(chunks.flat()).toEqual(pairs);
+  });
+
+  it('sizes each handle by the type in its bytes', () => {
+    // 12 * 160 = 1920 bits, a 13th eaddress does not fit
+    const chunks = chunkPairsByBits(pairsOf('eaddress', 13));
+
+    expect(chunks.map(chunk => chunk.length)).toEqual([12, 1]);
+  });
+});
+
+describe('batchDecryptHandles', () => {
+  it('signs once per contract group and merges results across chunks', async () => {
+    const { instance } = installBrowserEnvironment();
+    const signer = createSigner();
+    const client = await FheClient.create({ signer });
+
+    // 11 contracts -> 2 signatures; 9 euint256 on the first contract -> 2 chunks there
+    const pairs = [
+      ...Array.from({ length: 9 }, (_, i) => ({ handle: instance.register('euint256', BigInt(i)), contractAddress: contractAt(0) })),
+      ...Array.from({ length: 10 }, (_, i) => ({ handle: instance.register('ebool', i % 2 === 0), contractAddress: contractAt(i + 1) })),
+    ];
+
+    const values = await client.batchDecryptHandles(pairs);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(2);
+    expect(instance.userDecrypt).toHaveBeenCalledTimes(3);
+    for (const call of instance.userDecrypt.mock.calls) {
+      expect(new Set(call[0].map(pair => pair.contractAddress.toLowerCase())).size).toBeLessThanOrEqual(MAX_CONTRACTS_PER_SIGNATURE);
+    }
+    expect(values).toEqual(
+      Object.fromEntries([
+        ...pairs.slice(0, 9).map((pair, i) => [pair.handle, BigInt(i)]),
+        ...pairs.slice(9).map((pair, i) => [pair.handle, i % 2 === 0]),
+      ])
+    );
+  });
+
+  it('matches relayer keys regardless of case', async () => {
+    const { instance } = installBrowserEnvironment();
+    const client = await FheClient.create({ signer: createSigner() });
+    const handle = instance.register('euint32', 412);
+    instance.userDecrypt.mockResolvedValueOnce({ ['0x' + handle.slice(2).toUpperCase()]: 412n });
+
+    await expect(client.batchDecryptHandles([{ handle, contractAddress: contractAt(0) }])).resolves.toEqual({ [handle]: 412n });
+  });
+
+  it('does not prompt for an empty batch', async () => {
+    const { instance } = installBrowserEnvironment();
+    const signer = createSigner();
+    const client = await FheClient.create({ signer });
+
+    await expect(client.batchDecryptHandles([])).resolves.toEqual({});
+    expect(signer.signTypedData).not.toHaveBeenCalled();
+    expect(instance.userDecrypt).not.toHaveBeenCalled();
+  });
+});
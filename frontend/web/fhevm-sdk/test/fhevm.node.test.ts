@@ -0,0 +1,16 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { initializeFheInstance, getFheInstance, FHEVM_NETWORKS, InvalidConfigError } from '../src/core/index.js';
+
+describe('initializeFheInstance without a browser', () => {
+  it('takes the Node.js path when there is no window', async () => {
+    expect(typeof window).toBe('undefined');
+
+    // The Node.js path needs an RPC endpoint - the browser path never asks for one
+    const network = { ...FHEVM_NETWORKS.sepolia, rpcUrl: undefined };
+    await expect(initializeFheInstance({ network })).rejects.toThrow(/No RPC URL configured for chain 11155111/);
+    await expect(initializeFheInstance({ network })).rejects.toBeInstanceOf(InvalidConfigError);
+
+    expect(getFheInstance()).toBeNull();
+  });
+});
@@ -0,0 +1,293 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  initializeFheInstance,
+  getFheInstance,
+  createEncryptedInput,
+  publicDecryptV09,
+  FheClient,
+  FHEVM_NETWORKS,
+  InvalidConfigError,
+  InvalidInputError,
+  MalformedEncryptedInputError,
+  NotInitializedError,
+  ProofVerificationError,
+  RelayerUnavailableError,
+} from '../src/core/index.js';
+import {
+  CONTRACT_ADDRESS,
+  USER_ADDRESS,
+  OTHER_ADDRESS,
+  createFakeEthereum,
+  createFakeRelayerInstance,
+  deferred,
+  installBrowserEnvironment,
+} from './helpers.js';
+
+describe('initializeFheInstance', () => {
+  it('creates the browser instance through window.RelayerSDK with the wallet as network', async () => {
+    const { ethereum, instance, sdk } = installBrowserEnvironment();
+
+    await expect(initializeFheInstance()).resolves.toBe(instance);
+
+    expect(sdk.initSDK).toHaveBeenCalledTimes(1);
+    expect(sdk.createInstance).toHaveBeenCalledWith(
+      expect.objectContaining({
+        chainId: FHEVM_NETWORKS.sepolia.chainId,
+        aclContractAddress: FHEVM_NETWORKS.sepolia.aclContractAddress,
+        relayerUrl: FHEVM_NETWORKS.sepolia.relayerUrl,
+        network: ethereum,
+      })
+    );
+    expect(getFheInstance()).toBe(instance);
+  });
+
+  it('accepts the lower-case relayerSDK global', async () => {
+    const { instance } = installBrowserEnvironment({ sdkGlobal: 'relayerSDK' });
+
+    await expect(initializeFheInstance()).resolves.toBe(instance);
+  });
+
+  it('targets the configured network preset', async () => {
+    const { sdk } = installBrowserEnvironment();
+
+    await initializeFheInstance({ network: 'hardhat' });
+
+    expect(sdk.createInstance).toHaveBeenCalledWith(expect.objectContaining({ chainId: FHEVM_NETWORKS.hardhat.chainId }));
+  });
+
+  it('falls back to the local WASM files when the CDN cannot be reached', async () => {
+    const { instance, sdk } = installBrowserEnvironment();
+    sdk.initSDK.mockRejectedValueOnce(new Error('CORS'));
+
+    await expect(initializeFheInstance()).resolves.toBe(instance);
+
+    expect(sdk.initSDK).toHaveBeenCalledTimes(2);
+    expect(sdk.initSDK).toHaveBeenLastCalledWith({ tfheParams: '/tfhe_bg.wasm', kmsParams: '/kms_lib_bg.wasm' });
+  });
+
+  it('throws NotInitializedError when the relayer script is not loaded', async () => {
+    installBrowserEnvironment({ sdkGlobal: null });
+
+    await expect(initializeFheInstance()).rejects.toBeInstanceOf(NotInitializedError);
+  });
+
+  it('maps instance creation failures onto SDK errors', async () => {
+    const { sdk } = installBrowserEnvironment();
+    sdk.createInstance.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    await expect(initializeFheInstance()).rejects.toBeInstanceOf(RelayerUnavailableError);
+  });
+
+  it('keeps the previous default instance when a new initialization fails', async () => {
+    const { instance, sdk } = installBrowserEnvironment();
+    await initializeFheInstance();
+
+    sdk.createInstance.mockRejectedValueOnce(new Error('boom'));
+    await expect(initializeFheInstance({ network: 'hardhat' })).rejects.toThrow('boom');
+
+    expect(getFheInstance()).toBe(instance);
+  });
+
+  it('keeps the newest default instance when an earlier initialization finishes last', async () => {
+    const { sdk } = installBrowserEnvironment();
+    const sepoliaInstance = createFakeRelayerInstance();
+    const hardhatInstance = createFakeRelayerInstance();
+    const slowSepolia = deferred<any>();
+    sdk.createInstance.mockReturnValueOnce(slowSepolia.promise).mockResolvedValueOnce(hardhatInstance);
+
+    const first = initializeFheInstance();
+    await vi.waitFor(() => expect(sdk.createInstance).toHaveBeenCalledTimes(1));
+    await expect(initializeFheInstance({ network: 'hardhat' })).resolves.toBe(hardhatInstance);
+
+    slowSepolia.resolve(sepoliaInstance);
+    await expect(first).resolves.toBe(sepoliaInstance);
+    expect(getFheInstance()).toBe(hardhatInstance);
+  });
+
+  it('leaves the wallet alone in mock mode', async () => {
+    const ethereum = createFakeEthereum();
+    (window as any).ethereum = ethereum;
+
+    // Mock mode never falls through to the browser path, even with a wallet injected
+    const network = { ...FHEVM_NETWORKS.hardhat, rpcUrl: undefined };
+    await expect(initializeFheInstance({ mode: 'mock', network })).rejects.toThrow(/Mock mode needs the RPC URL/);
+    expect(ethereum.request).not.toHaveBeenCalled();
+  });
+
+  it('rejects a signer together with a private key', () => {
+    expect(() => new FheClient({ signer: {}, privateKey: '0x01' })).toThrow(InvalidConfigError);
+  });
+});
+
+describe('createEncryptedInput', () => {
+  it('returns exactly the handles and inputProof of a single euint32', async () => {
+    const { instance } = installBrowserEnvironment();
+    await initializeFheInstance();
+
+    const result = await createEncryptedInput(CONTRACT_ADDRESS, USER_ADDRESS, 412);
+
+    expect(instance.createEncryptedInput).toHaveBeenCalledWith(CONTRACT_ADDRESS, USER_ADDRESS);
+    expect(Object.keys(result)).toEqual(['handles', 'inputProof']);
+    expect(result.handles).toHaveLength(1);
+    expect(result.handles[0]).toBeInstanceOf(Uint8Array);
+    expect(result.handles[0]).toHaveLength(32);
+    // FheTypeId 4 = euint32
+    expect(result.handles[0][30]).toBe(4);
+    expect(result.inputProof).toEqual(new Uint8Array([0xde, 0xad, 0xbe, 0xef]));
+    expect(instance.cleartexts.get(ethers.hexlify(result.handles[0]))).toBe(412);
+  });
+
+  it('range-checks the value before it reaches the relayer', async () => {
+    const { instance } = installBrowserEnvironment();
+    await initializeFheInstance();
+
+    await expect(createEncryptedInput(CONTRACT_ADDRESS, USER_ADDRESS, -1)).rejects.toBeInstanceOf(InvalidInputError);
+    await expect(createEncryptedInput(CONTRACT_ADDRESS, USER_ADDRESS, 2 ** 32)).rejects.toBeInstanceOf(InvalidInputError);
+    expect(instance.createEncryptedInput.mock.results.every(r => r.value.encrypt.mock.calls.length === 0)).toBe(true);
+  });
+
+  it('rejects hex-string handles instead of guessing', async () => {
+    const { instance } = installBrowserEnvironment();
+    await initializeFheInstance();
+    instance.createEncryptedInput.mockReturnValueOnce({
+      add32: () => {},
+      encrypt: async () => ({ handles: [ethers.hexlify(new Uint8Array(32))], inputProof: new Uint8Array([1]) }),
+    });
+
+    await expect(createEncryptedInput(CONTRACT_ADDRESS, USER_ADDRESS, 1)).rejects.toBeInstanceOf(MalformedEncryptedInputError);
+  });
+
+  it('rejects an empty inputProof', async () => {
+    const { instance } = installBrowserEnvironment();
+    await initializeFheInstance();
+    instance.createEncryptedInput.mockReturnValueOnce({
+      add32: () => {},
+      encrypt: async () => ({ handles: [new Uint8Array(32)], inputProof: new Uint8Array() }),
+    });
+
+    await expect(createEncryptedInput(CONTRACT_ADDRESS, USER_ADDRESS, 1)).rejects.toThrow(/inputProof/);
+  });
+
+  it('throws NotInitializedError before initialization', async () => {
+    await expect(createEncryptedInput(CONTRACT_ADDRESS, USER_ADDRESS, 1)).rejects.toBeInstanceOf(NotInitializedError);
+  });
+});
+
+describe('publicDecryptV09', () => {
+  async function setup() {
+    const env = installBrowserEnvironment();
+    await initializeFheInstance();
+    const handles = [
+      env.instance.register('euint32', 412),
+      env.instance.register('ebool', true),
+      env.instance.register('eaddress', OTHER_ADDRESS.toLowerCase()),
+    ];
+    return { ...env, handles };
+  }
+
+  it('decodes each cleartext by handle type', async () => {
+    const { instance, handles } = await setup();
+
+    const result = await publicDecryptV09(handles);
+
+    expect(instance.publicDecrypt).toHaveBeenCalledWith(handles);
+    expect(result.clearValues).toEqual({ [handles[0]]: 412n, [handles[1]]: true, [handles[2]]: OTHER_ADDRESS });
+    expect(result.decryptionProof).toBe('0x1234');
+  });
+
+  it("keeps the relayer's ABI encoding when there is one", async () => {
+    const { instance, handles } = await setup();
+    instance.publicDecrypt.mockResolvedValueOnce({
+      clearValues: { [handles[0]]: 412n },
+      abiEncodedClearValues: '0xc0ffee',
+      decryptionProof: '0x1234',
+    });
+
+    const result = await publicDecryptV09([handles[0]]);
+
+    expect(result.abiEncodedClearValues).toBe('0xc0ffee');
+  });
+
+  it.each([
+    ['is missing', undefined],
+    ['is empty', '0x'],
+  ])('encodes the cleartexts by handle type when abiEncodedClearValues %s', async (_label, abiEncodedClearValues) => {
+    const { instance, handles } = await setup();
+    instance.publicDecrypt.mockResolvedValueOnce({
+      clearValues: { [handles[0]]: 412n, [handles[1]]: true, [handles[2]]: BigInt(OTHER_ADDRESS) },
+      abiEncodedClearValues,
+      decryptionProof: '0x1234',
+    });
+
+    const result = await publicDecryptV09(handles);
+
+    expect(result.abiEncodedClearValues).toBe(
+      ethers.AbiCoder.defaultAbiCoder().encode(['uint32', 'bool', 'address'], [412, true, OTHER_ADDRESS])
+    );
+    expect(result.clearValues[handles[2]]).toBe(OTHER_ADDRESS);
+  });
+
+  it('matches relayer keys regardless of case', async () => {
+    const { instance, handles } = await setup();
+    const upper = (handle: string) => '0x' + handle.slice(2).toUpperCase();
+    instance.publicDecrypt.mockResolvedValueOnce({
+      clearValues: { [upper(handles[0])]: 412n, [upper(handles[1])]: false, [upper(handles[2])]: OTHER_ADDRESS },
+      decryptionProof: '0x1234',
+    });
+
+    const result = await publicDecryptV09(handles);
+
+    expect(result.clearValues).toEqual({ [handles[0]]: 412n, [handles[1]]: false, [handles[2]]: OTHER_ADDRESS });
+  });
+
+  it('refuses a result without a KMS proof', async () => {
+    const { instance, handles } = await setup();
+    instance.publicDecrypt.mockResolvedValueOnce({ clearValues: { [handles[0]]: 412n }, decryptionProof: '0x' });
+
+    await expect(publicDecryptV09([handles[0]])).rejects.toBeInstanceOf(ProofVerificationError);
+  });
+
+  it('rejects an empty handle list', async () => {
+    await setup();
+
+    await expect(publicDecryptV09([])).rejects.toBeInstanceOf(InvalidInputError);
+  });
+
+  it('requires a relayer SDK with publicDecrypt', async () => {
+    const { instance, handles } = await setup();
+    delete (instance as any).publicDecrypt;
+
+    await expect(publicDecryptV09(handles)).rejects.toBeInstanceOf(InvalidConfigError);
+  });
+});
+
+describe('decryption sessions', () => {
+  it('reuses a signature persisted in IndexedDB across clients', async () => {
+    const { instance } = installBrowserEnvironment();
+    const handle = instance.register('euint32', 412);
+    const signer = {
+      getAddress: vi.fn(async () => USER_ADDRESS),
+      signTypedData: vi.fn(async () => '0x5151'),
+    };
+
+    const first = await FheClient.create({ sessionStorage: 'indexeddb' });
+    await expect(first.decryptValue(handle, CONTRACT_ADDRESS, signer)).resolves.toBe(412n);
+
+    // A new client stands in for a page reload
+    const second = await FheClient.create({ sessionStorage: 'indexeddb' });
+    await expect(second.decryptValue(handle, CONTRACT_ADDRESS, signer)).resolves.toBe(412n);
+
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(instance.userDecrypt).toHaveBeenLastCalledWith(
+      [{ handle, contractAddress: CONTRACT_ADDRESS }],
+      '0x0b',
+      '0x0a',
+      '5151',
+      [CONTRACT_ADDRESS],
+      USER_ADDRESS,
+      expect.any(String),
+      '10'
+    );
+  });
+});
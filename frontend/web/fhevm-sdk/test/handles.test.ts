@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { ethers } from 'ethers';
+import {
+  decodeClearValue,
+  getHandleType,
+  toSafeNumber,
+  InvalidHandleError,
+  InvalidInputError,
+} from '../src/core/index.js';
+import { OTHER_ADDRESS, makeHandle } from './helpers.js';
+
+describe('decodeClearValue', () => {
+  it('returns a boolean for ebool whatever the relayer sends', () => {
+    const handle = makeHandle('ebool');
+
+    expect(decodeClearValue(handle, true)).toBe(true);
+    expect(decodeClearValue(handle, false)).toBe(false);
+    expect(decodeClearValue(handle, 1n)).toBe(true);
+    expect(decodeClearValue(handle, 0)).toBe(false);
+    expect(decodeClearValue(handle, '0x01')).toBe(true);
+  });
+
+  it('returns a checksummed address for eaddress', () => {
+    const handle = makeHandle('eaddress');
+
+    expect(decodeClearValue(handle, OTHER_ADDRESS.toLowerCase())).toBe(OTHER_ADDRESS);
+    expect(decodeClearValue(handle, BigInt(OTHER_ADDRESS))).toBe(OTHER_ADDRESS);
+    // Leading zero bytes are kept
+    expect(decodeClearValue(handle, 1n)).toBe(ethers.getAddress('0x0000000000000000000000000000000000000001'));
+  });
+
+  it('returns a bigint for euint types without losing precision', () => {
+    const big = 2n ** 200n + 1n;
+
+    expect(decodeClearValue(makeHandle('euint32'), 412)).toBe(412n);
+    expect(decodeClearValue(makeHandle('euint256'), big)).toBe(big);
+    expect(decodeClearValue(makeHandle('euint256'), big.toString())).toBe(big);
+  });
+
+  it('takes the type from byte 30 of byte handles too', () => {
+    expect(getHandleType(ethers.getBytes(makeHandle('eaddress')))).toBe('eaddress');
+  });
+
+  it('throws when the relayer returned no cleartext', () => {
+    expect(() => decodeClearValue(makeHandle('euint32'), undefined)).toThrow(InvalidHandleError);
+  });
+
+  it('rejects handles with an unknown type id', () => {
+    const bytes = ethers.getBytes(makeHandle('euint32'));
+    bytes[30] = 0x42;
+
+    expect(() => decodeClearValue(bytes, 1n)).toThrow(/unknown FHE type id 66/);
+  });
+});
+
+describe('toSafeNumber', () => {
+  it('converts values inside the safe integer range', () => {
+    expect(toSafeNumber(412n)).toBe(412);
+    expect(toSafeNumber(BigInt(Number.MAX_SAFE_INTEGER))).toBe(Number.MAX_SAFE_INTEGER);
+    expect(toSafeNumber(true)).toBe(1);
+    expect(toSafeNumber(false)).toBe(0);
+  });
+
+  it('throws instead of rounding values above Number.MAX_SAFE_INTEGER', () => {
+    expect(() => toSafeNumber(BigInt(Number.MAX_SAFE_INTEGER) + 1n)).toThrow(InvalidInputError);
+    expect(() => toSafeNumber(2n ** 64n - 1n)).toThrow(/exceeds Number.MAX_SAFE_INTEGER/);
+  });
+
+  it('refuses addresses', () => {
+    expect(() => toSafeNumber(OTHER_ADDRESS)).toThrow(InvalidInputError);
+  });
+});
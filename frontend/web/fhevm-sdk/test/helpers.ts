@@ -0,0 +1,241 @@
+/**
+ * Test doubles for the relayer SDK and an injected EIP-1193 wallet
+ */
+
+import { vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FHE_SOLIDITY_TYPES, FHE_TYPE_IDS, FheType } from '../src/core/index.js';
+
+export const CONTRACT_ADDRESS = '0x1111111111111111111111111111111111111111';
+export const USER_ADDRESS = '0xaAaAaAaaAaAaAaaAaAAAAAAAAaaaAaAaAaaAaaAa';
+export const OTHER_ADDRESS = '0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB';
+
+export const SEPOLIA_CHAIN_ID_HEX = '0xaa36a7';
+export const HARDHAT_CHAIN_ID_HEX = '0x7a69';
+export const MAINNET_CHAIN_ID_HEX = '0x1';
+
+const TYPE_IDS = Object.fromEntries(
+  Object.entries(FHE_TYPE_IDS).map(([id, type]) => [type, Number(id)])
+) as Record<FheType, number>;
+
+let handleCounter = 0;
+
+/**
+ * Fresh 32-byte handle carrying the FHE type id in byte 30, like the coprocessor's
+ */
+export function makeHandle(type: FheType): string {
+  const bytes = new Uint8Array(32);
+  bytes.set(ethers.getBytes(ethers.toBeHex(++handleCounter, 4)), 0);
+  bytes[30] = TYPE_IDS[type];
+  return ethers.hexlify(bytes);
+}
+
+/**
+ * ABI-encoded revert data for require(condition, reason)
+ */
+export function encodeRevertReason(reason: string): string {
+  return ethers.concat([ethers.id('Error(string)').slice(0, 10), ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+}
+
+export interface Deferred<T> {
+  promise: Promise<T>;
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+export function deferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+/**
+ * In-memory stand-in for a relayer SDK instance. Encrypted values are kept
+ * by handle so publicDecrypt/userDecrypt return what was encrypted.
+ */
+export function createFakeRelayerInstance() {
+  const cleartexts = new Map<string, unknown>();
+
+  const register = (type: FheType, value: unknown): string => {
+    const handle = makeHandle(type);
+    cleartexts.set(handle, value);
+    return handle;
+  };
+
+  const instance = {
+    cleartexts,
+    /** Handle for a value "already on-chain", e.g. returned by a contract getter */
+    register,
+    createEncryptedInput: vi.fn((_contractAddress: string, _userAddress: string) => {
+      const values: { type: FheType; value: unknown }[] = [];
+      const input: any = {};
+      const adder = (type: FheType) => (value: unknown) => {
+        values.push({ type, value });
+        return input;
+      };
+      Object.assign(input, {
+        addBool: adder('ebool'),
+        add8: adder('euint8'),
+        add16: adder('euint16'),
+        add32: adder('euint32'),
+        add64: adder('euint64'),
+        add128: adder('euint128'),
+        add256: adder('euint256'),
+        addAddress: adder('eaddress'),
+        encrypt: vi.fn(async () => ({
+          handles: values.map(({ type, value }) => ethers.getBytes(register(type, value))),
+          inputProof: new Uint8Array([0xde, 0xad, 0xbe, 0xef]),
+        })),
+      });
+      return input;
+    }),
+    publicDecrypt: vi.fn(async (handles: string[]): Promise<any> => {
+      const values = handles.map(handle => cleartexts.get(handle.toLowerCase()));
+      return {
+        clearValues: Object.fromEntries(handles.map((handle, index) => [handle, values[index]])),
+        abiEncodedClearValues: ethers.AbiCoder.defaultAbiCoder().encode(
+          handles.map(handle => FHE_SOLIDITY_TYPES[FHE_TYPE_IDS[parseInt(handle.slice(-4, -2), 16)]]),
+          values
+        ),
+        decryptionProof: '0x1234',
+      };
+    }),
+    generateKeypair: vi.fn(() => ({ publicKey: '0x0a', privateKey: '0x0b' })),
+    createEIP712: vi.fn((publicKey: string, contractAddresses: string[], startTimestamp: string, durationDays: string) => ({
+      domain: { name: 'Decryption', version: '1', chainId: 10901, verifyingContract: CONTRACT_ADDRESS },
+      types: { UserDecryptRequestVerification: [{ name: 'publicKey', type: 'bytes' }] },
+      message: { publicKey, contractAddresses, startTimestamp, durationDays },
+    })),
+    userDecrypt: vi.fn(async (pairs: { handle: string; contractAddress: string }[]) =>
+      Object.fromEntries(pairs.map(({ handle }) => [handle, cleartexts.get(handle.toLowerCase())]))
+    ),
+  };
+  return instance;
+}
+
+export type FakeRelayerInstance = ReturnType<typeof createFakeRelayerInstance>;
+
+export interface FakeEthereumOptions {
+  /** Accounts already authorized - returned by eth_accounts without a prompt */
+  accounts?: string[];
+  chainId?: string;
+}
+
+/**
+ * Injected wallet answering the account and chain methods the SDK uses.
+ * emit() fires chainChanged/accountsChanged like a real extension.
+ */
+export function createFakeEthereum(options: FakeEthereumOptions = {}) {
+  const listeners = new Map<string, Set<(...args: any[]) => void>>();
+
+  const ethereum = {
+    accounts: options.accounts ?? [],
+    chainId: options.chainId ?? SEPOLIA_CHAIN_ID_HEX,
+    request: vi.fn(async ({ method }: { method: string; params?: any[] }): Promise<any> => {
+      switch (method) {
+        case 'eth_requestAccounts':
+          if (ethereum.accounts.length === 0) ethereum.accounts = [USER_ADDRESS];
+          return ethereum.accounts;
+        case 'eth_accounts':
+          return ethereum.accounts;
+        case 'eth_chainId':
+          return ethereum.chainId;
+        case 'net_version':
+          return BigInt(ethereum.chainId).toString();
+        case 'eth_blockNumber':
+          return '0x1';
+        default:
+          throw new Error(`Fake wallet does not support ${method}`);
+      }
+    }),
+    on: vi.fn((event: string, listener: (...args: any[]) => void) => {
+      if (!listeners.has(event)) listeners.set(event, new Set());
+      listeners.get(event)!.add(listener);
+    }),
+    removeListener: vi.fn((event: string, listener: (...args: any[]) => void) => {
+      listeners.get(event)?.delete(listener);
+    }),
+    emit(event: string, ...args: any[]) {
+      if (event === 'chainChanged') ethereum.chainId = args[0];
+      if (event === 'accountsChanged') ethereum.accounts = args[0];
+      listeners.get(event)?.forEach(listener => listener(...args));
+    },
+    listenerCount(event: string) {
+      return listeners.get(event)?.size ?? 0;
+    },
+  };
+  return ethereum;
+}
+
+export type FakeEthereum = ReturnType<typeof createFakeEthereum>;
+
+export interface BrowserEnvironmentOptions extends FakeEthereumOptions {
+  /** Relayer instance createInstance() resolves to - a fresh fake by default */
+  instance?: FakeRelayerInstance;
+  /** Name of the global the relayer script registers - 'RelayerSDK' by default */
+  sdkGlobal?: 'RelayerSDK' | 'relayerSDK' | null;
+}
+
+/**
+ * Browser the way the CDN relayer script leaves it: window.ethereum plus
+ * window.RelayerSDK with initSDK/createInstance
+ */
+export function installBrowserEnvironment(options: BrowserEnvironmentOptions = {}) {
+  const ethereum = createFakeEthereum(options);
+  const instance = options.instance ?? createFakeRelayerInstance();
+  const sdk = {
+    initSDK: vi.fn(async (_options?: any) => {}),
+    createInstance: vi.fn(async (_config: any) => instance),
+  };
+
+  (window as any).ethereum = ethereum;
+  const sdkGlobal = options.sdkGlobal === undefined ? 'RelayerSDK' : options.sdkGlobal;
+  if (sdkGlobal) (window as any)[sdkGlobal] = sdk;
+
+  return { ethereum, instance, sdk };
+}
+
+export function uninstallBrowserEnvironment() {
+  if (typeof window === 'undefined') return;
+  delete (window as any).ethereum;
+  delete (window as any).RelayerSDK;
+  delete (window as any).relayerSDK;
+}
+
+export interface FakeTransactionOptions {
+  hash?: string;
+  /** Receipt status - 0 for a mined revert */
+  status?: number;
+  /** Revert data returned when the call is replayed at its block */
+  revertData?: string;
+}
+
+/**
+ * Just enough of an ethers TransactionResponse for trackTransaction()
+ */
+export function createFakeTransaction(options: FakeTransactionOptions = {}) {
+  const hash = options.hash ?? ethers.id(`tx-${++handleCounter}`);
+  const receipt = { hash, status: options.status ?? 1, blockNumber: 7 };
+
+  return {
+    hash,
+    to: CONTRACT_ADDRESS,
+    from: USER_ADDRESS,
+    data: '0x',
+    value: 0n,
+    receipt,
+    wait: vi.fn(async (_confirmations?: number): Promise<any> => receipt),
+    provider: {
+      call: vi.fn(async () => {
+        if (options.revertData) throw Object.assign(new Error('execution reverted'), { data: options.revertData });
+        return '0x';
+      }),
+    },
+  };
+}
+
+export type FakeTransaction = ReturnType<typeof createFakeTransaction>;
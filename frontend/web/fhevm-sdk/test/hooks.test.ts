@@ -0,0 +1,797 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Component, Suspense, createElement, ReactNode } from 'react';
+import { act, render, renderHook, screen, waitFor } from '@testing-library/react';
+import { ethers } from 'ethers';
+import {
+  FhevmStore,
+  FhevmError,
+  FHEVM_NETWORKS,
+  initializeFheInstance,
+  getFheInstance,
+  InvalidInputError,
+  OperationAbortedError,
+  TransactionFailedError,
+  TransactionEvent,
+  UnsupportedChainError,
+} from '../src/core/index.js';
+import {
+  useWallet,
+  useFhevm,
+  useContract,
+  useDecrypt,
+  useEncrypt,
+  useUserDecrypt,
+  useFhevmTransaction,
+  useFhevmStore,
+  useFhevmInstance,
+  FhevmProvider,
+  FhevmContext,
+} from '../src/adapters/react.js';
+import {
+  CONTRACT_ADDRESS,
+  USER_ADDRESS,
+  OTHER_ADDRESS,
+  HARDHAT_CHAIN_ID_HEX,
+  MAINNET_CHAIN_ID_HEX,
+  createFakeRelayerInstance,
+  createFakeTransaction,
+  deferred,
+  encodeRevertReason,
+  installBrowserEnvironment,
+} from './helpers.js';
+
+/**
+ * Hooks read the store from context - each test gets its own
+ */
+function withStore(store: FhevmStore) {
+  return ({ children }: { children?: ReactNode }) => createElement(FhevmContext.Provider, { value: store }, children);
+}
+
+function withProvider(store: FhevmStore) {
+  return ({ children }: { children?: ReactNode }) => createElement(FhevmProvider, { store }, children);
+}
+
+/**
+ * Signer the SDK only asks for an address and an EIP-712 signature
+ */
+function createFakeSigner(address = USER_ADDRESS) {
+  return {
+    provider: null,
+    getAddress: vi.fn(async () => address),
+    signTypedData: vi.fn(async () => '0x5151'),
+  } as any;
+}
+
+describe('useFhevmStore', () => {
+  it('re-renders on every store change', () => {
+    const store = new FhevmStore();
+    const { result } = renderHook(() => useFhevmStore(), { wrapper: withStore(store) });
+    expect(result.current.status).toBe('idle');
+
+    act(() => store.setState({ chainId: 31337 }));
+
+    expect(result.current.chainId).toBe(31337);
+  });
+
+  it('lists operations while they are pending', async () => {
+    const store = new FhevmStore();
+    const { result } = renderHook(() => useFhevmStore(), { wrapper: withStore(store) });
+    const operation = deferred<void>();
+
+    let tracked!: Promise<void>;
+    act(() => {
+      tracked = store.track('encrypt', () => operation.promise, CONTRACT_ADDRESS);
+    });
+    expect(result.current.pending).toEqual([expect.objectContaining({ kind: 'encrypt', label: CONTRACT_ADDRESS })]);
+
+    await act(async () => {
+      operation.resolve();
+      await tracked;
+    });
+    expect(result.current.pending).toEqual([]);
+  });
+});
+
+describe('FhevmProvider', () => {
+  it('initializes on mount and shares the instance with the hooks below', async () => {
+    const { instance, sdk } = installBrowserEnvironment();
+    const store = new FhevmStore();
+
+    const { result } = renderHook(() => useFhevm(), { wrapper: withProvider(store) });
+
+    await waitFor(() => expect(result.current.status).toBe('ready'));
+    expect(result.current.instance).toBe(instance);
+    expect(result.current.network?.chainId).toBe(FHEVM_NETWORKS.sepolia.chainId);
+    expect(sdk.createInstance).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-creates the instance when the wallet switches chain', async () => {
+    const { ethereum, sdk } = installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const store = new FhevmStore();
+    const { result } = renderHook(() => useFhevm(), { wrapper: withProvider(store) });
+    await waitFor(() => expect(result.current.status).toBe('ready'));
+
+    act(() => ethereum.emit('chainChanged', HARDHAT_CHAIN_ID_HEX));
+
+    await waitFor(() => expect(result.current.network?.chainId).toBe(FHEVM_NETWORKS.hardhat.chainId));
+    await waitFor(() => expect(result.current.status).toBe('ready'));
+    expect(sdk.createInstance).toHaveBeenLastCalledWith(expect.objectContaining({ chainId: FHEVM_NETWORKS.hardhat.chainId }));
+  });
+
+  it('reports a chain without an FHEVM deployment', async () => {
+    const { ethereum } = installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const store = new FhevmStore();
+    const { result } = renderHook(() => useFhevm(), { wrapper: withProvider(store) });
+    await waitFor(() => expect(result.current.status).toBe('ready'));
+
+    act(() => ethereum.emit('chainChanged', MAINNET_CHAIN_ID_HEX));
+
+    expect(result.current.status).toBe('unsupported-chain');
+    expect(result.current.isUnsupportedChain).toBe(true);
+    expect(result.current.errorCode).toBe('UNSUPPORTED_CHAIN');
+    expect(result.current.instance).toBeNull();
+  });
+
+  it('stops listening to the wallet when unmounted', async () => {
+    const { ethereum } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    const { result, unmount } = renderHook(() => useFhevm(), { wrapper: withProvider(store) });
+    await waitFor(() => expect(result.current.status).toBe('ready'));
+    expect(ethereum.listenerCount('chainChanged')).toBe(1);
+
+    unmount();
+
+    expect(ethereum.listenerCount('chainChanged')).toBe(0);
+    expect(ethereum.listenerCount('accountsChanged')).toBe(0);
+  });
+});
+
+describe('useFhevm', () => {
+  it('initializes itself when given options', async () => {
+    const { instance, sdk } = installBrowserEnvironment();
+    const store = new FhevmStore();
+
+    const { result } = renderHook(() => useFhevm({ network: 'hardhat' }), { wrapper: withStore(store) });
+
+    await waitFor(() => expect(result.current.isInitialized).toBe(true));
+    expect(result.current.instance).toBe(instance);
+    expect(sdk.createInstance).toHaveBeenCalledWith(expect.objectContaining({ chainId: FHEVM_NETWORKS.hardhat.chainId }));
+  });
+
+  it('only reads the shared state without options', async () => {
+    const { sdk } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    const { result } = renderHook(() => useFhevm(), { wrapper: withStore(store) });
+
+    expect(result.current.status).toBe('idle');
+    expect(sdk.createInstance).not.toHaveBeenCalled();
+
+    await act(() => result.current.initialize());
+
+    expect(result.current.status).toBe('ready');
+  });
+
+  it('reports initialization errors with their code', async () => {
+    installBrowserEnvironment({ sdkGlobal: null });
+    const store = new FhevmStore();
+    const { result } = renderHook(() => useFhevm(), { wrapper: withStore(store) });
+
+    await act(() => result.current.initialize());
+
+    expect(result.current.status).toBe('error');
+    expect(result.current.errorCode).toBe('NOT_INITIALIZED');
+    expect(result.current.error).toMatch(/RelayerSDK not loaded/);
+  });
+});
+
+describe('useFhevmInstance', () => {
+  class ErrorBoundary extends Component<{ children?: ReactNode }, { error: unknown }> {
+    state = { error: null as unknown };
+
+    static getDerivedStateFromError(error: unknown) {
+      return { error };
+    }
+
+    render() {
+      if (this.state.error) return createElement('p', null, `error: ${(this.state.error as FhevmError).code}`);
+      return this.props.children;
+    }
+  }
+
+  function Probe() {
+    const instance = useFhevmInstance();
+    return createElement('p', null, instance === null ? 'no instance' : 'instance ready');
+  }
+
+  function renderProbe(store: FhevmStore) {
+    return render(
+      createElement(
+        FhevmContext.Provider,
+        { value: store },
+        createElement(ErrorBoundary, null, createElement(Suspense, { fallback: createElement('p', null, 'loading') }, createElement(Probe)))
+      )
+    );
+  }
+
+  it('suspends until the instance is ready', async () => {
+    installBrowserEnvironment();
+    const store = new FhevmStore();
+    let initialization!: Promise<unknown>;
+    act(() => {
+      initialization = store.initialize();
+    });
+
+    renderProbe(store);
+    expect(screen.getByText('loading')).toBeDefined();
+
+    await act(() => initialization);
+
+    expect(await screen.findByText('instance ready')).toBeDefined();
+  });
+
+  it('initializes an idle store nobody else starts instead of suspending forever', async () => {
+    const { sdk } = installBrowserEnvironment();
+    const store = new FhevmStore();
+
+    renderProbe(store);
+    expect(screen.getByText('loading')).toBeDefined();
+
+    expect(await screen.findByText('instance ready')).toBeDefined();
+    expect(sdk.createInstance).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves initialization to an FhevmProvider above it', async () => {
+    const { sdk } = installBrowserEnvironment({ chainId: HARDHAT_CHAIN_ID_HEX });
+    const store = new FhevmStore();
+
+    render(
+      createElement(
+        FhevmProvider,
+        { store, config: { network: 'hardhat' } },
+        createElement(Suspense, { fallback: createElement('p', null, 'loading') }, createElement(Probe))
+      )
+    );
+
+    expect(await screen.findByText('instance ready')).toBeDefined();
+    expect(sdk.createInstance).toHaveBeenCalledTimes(1);
+    expect(sdk.createInstance).toHaveBeenCalledWith(expect.objectContaining({ chainId: FHEVM_NETWORKS.hardhat.chainId }));
+  });
+
+  it('throws the initialization error to the nearest error boundary', async () => {
+    installBrowserEnvironment({ sdkGlobal: null });
+    const store = new FhevmStore();
+    await store.initialize();
+
+    renderProbe(store);
+
+    expect(screen.getByText('error: NOT_INITIALIZED')).toBeDefined();
+  });
+
+  it('throws UnsupportedChainError on a chain without FHEVM', () => {
+    const store = new FhevmStore();
+    store.setState({ status: 'unsupported-chain', chainId: 1 });
+
+    renderProbe(store);
+
+    expect(screen.getByText(`error: ${new UnsupportedChainError(1).code}`)).toBeDefined();
+  });
+});
+
+describe('useWallet', () => {
+  it('picks up an already-authorized wallet without prompting', async () => {
+    const { ethereum } = installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const { result } = renderHook(() => useWallet(), { wrapper: withStore(new FhevmStore()) });
+
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+    expect(result.current.address).toBe(USER_ADDRESS);
+    expect(result.current.chainId).toBe(FHEVM_NETWORKS.sepolia.chainId);
+    expect(ethereum.request).not.toHaveBeenCalledWith({ method: 'eth_requestAccounts' });
+  });
+
+  it('connects and disconnects', async () => {
+    const { ethereum } = installBrowserEnvironment();
+    const { result } = renderHook(() => useWallet(), { wrapper: withStore(new FhevmStore()) });
+
+    await act(() => result.current.connect());
+
+    expect(ethereum.request).toHaveBeenCalledWith({ method: 'eth_requestAccounts' });
+    expect(result.current.isConnected).toBe(true);
+    expect(result.current.isConnecting).toBe(false);
+    expect(result.current.address).toBe(USER_ADDRESS);
+
+    act(() => result.current.disconnect());
+
+    expect(result.current.isConnected).toBe(false);
+    expect(result.current.chainId).toBe(0);
+  });
+
+  it('follows account and chain changes', async () => {
+    const { ethereum } = installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const { result } = renderHook(() => useWallet(), { wrapper: withStore(new FhevmStore()) });
+    await waitFor(() => expect(result.current.isConnected).toBe(true));
+
+    act(() => ethereum.emit('accountsChanged', [OTHER_ADDRESS]));
+    expect(result.current.address).toBe(OTHER_ADDRESS);
+
+    act(() => ethereum.emit('chainChanged', HARDHAT_CHAIN_ID_HEX));
+    expect(result.current.chainId).toBe(31337);
+
+    act(() => ethereum.emit('accountsChanged', []));
+    expect(result.current.isConnected).toBe(false);
+    expect(result.current.chainId).toBe(0);
+  });
+
+  it('reports a missing wallet', async () => {
+    const { result } = renderHook(() => useWallet(), { wrapper: withStore(new FhevmStore()) });
+
+    await act(() => result.current.connect());
+
+    expect(result.current.isConnected).toBe(false);
+    expect(result.current.error).toBe('MetaMask not found. Please install MetaMask.');
+  });
+
+  it('reports a rejected connection request', async () => {
+    const { ethereum } = installBrowserEnvironment();
+    const { result } = renderHook(() => useWallet(), { wrapper: withStore(new FhevmStore()) });
+    // Let the initial eth_accounts/eth_chainId read settle first
+    await waitFor(() => expect(result.current.chainId).toBe(FHEVM_NETWORKS.sepolia.chainId));
+    ethereum.request.mockRejectedValueOnce(new Error('User rejected the request.'));
+
+    await act(() => result.current.connect());
+
+    expect(result.current.isConnected).toBe(false);
+    expect(result.current.error).toBe('User rejected the request.');
+  });
+});
+
+describe('useContract', () => {
+  function createFakeFactory() {
+    return {
+      connect: vi.fn((address: string, runner?: ethers.ContractRunner | null) => ({ address, runner })),
+    };
+  }
+
+  it('connects a typechain factory read-only while the wallet is disconnected', async () => {
+    installBrowserEnvironment();
+    const factory = createFakeFactory();
+
+    const { result } = renderHook(() => useContract(CONTRACT_ADDRESS, factory), { wrapper: withStore(new FhevmStore()) });
+
+    await waitFor(() => expect(result.current.isReady).toBe(true));
+    expect(result.current.isSigner).toBe(false);
+    expect(result.current.contract?.address).toBe(CONTRACT_ADDRESS);
+    expect(result.current.contract?.runner).toBeInstanceOf(ethers.BrowserProvider);
+  });
+
+  it("switches to the wallet's signer once it is connected", async () => {
+    installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const factory = createFakeFactory();
+
+    const { result } = renderHook(() => useContract(CONTRACT_ADDRESS, factory), { wrapper: withStore(new FhevmStore()) });
+
+    await waitFor(() => expect(result.current.isSigner).toBe(true));
+    const signer = result.current.contract?.runner as ethers.JsonRpcSigner;
+    expect(signer).toBeInstanceOf(ethers.JsonRpcSigner);
+    expect(signer.address).toBe(USER_ADDRESS);
+  });
+
+  it("stays read-only in 'read' mode", async () => {
+    installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const store = new FhevmStore();
+    const factory = createFakeFactory();
+
+    const { result } = renderHook(() => useContract(CONTRACT_ADDRESS, factory, { mode: 'read' }), { wrapper: withStore(store) });
+
+    await waitFor(() => expect(store.getSnapshot().wallet.isConnected).toBe(true));
+    await waitFor(() => expect(result.current.isReady).toBe(true));
+    expect(result.current.isSigner).toBe(false);
+  });
+
+  it('builds an ethers.Contract from an ABI', async () => {
+    installBrowserEnvironment();
+    const abi = ['function getAllCaseIds() view returns (string[])'];
+
+    const { result } = renderHook(() => useContract(CONTRACT_ADDRESS, abi), { wrapper: withStore(new FhevmStore()) });
+
+    await waitFor(() => expect(result.current.isReady).toBe(true));
+    expect(result.current.contract).toBeInstanceOf(ethers.Contract);
+    expect(result.current.contract?.target).toBe(CONTRACT_ADDRESS);
+  });
+
+  it('stays empty without an address', async () => {
+    installBrowserEnvironment();
+    const factory = createFakeFactory();
+
+    const { result } = renderHook(() => useContract(undefined, factory), { wrapper: withStore(new FhevmStore()) });
+
+    await act(async () => {});
+    expect(result.current.contract).toBeNull();
+    expect(result.current.isReady).toBe(false);
+    expect(factory.connect).not.toHaveBeenCalled();
+  });
+});
+
+describe('useEncrypt', () => {
+  async function setup() {
+    const env = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    const hook = renderHook(() => useEncrypt(), { wrapper: withStore(store) });
+    return { ...env, ...hook };
+  }
+
+  it('encrypts a single euint32', async () => {
+    const { instance, result } = await setup();
+
+    const encrypted = await act(() => result.current.encrypt(CONTRACT_ADDRESS, USER_ADDRESS, 412));
+
+    expect(encrypted.handles).toHaveLength(1);
+    expect(instance.cleartexts.get(ethers.hexlify(encrypted.handles[0]))).toBe(412);
+    expect(result.current.error).toBe('');
+  });
+
+  it('encrypts a field map under one proof and reports its stages', async () => {
+    const { instance, result } = await setup();
+    const proof = deferred<any>();
+    instance.createEncryptedInput.mockImplementationOnce((contractAddress: string, userAddress: string) => {
+      const input = instance.createEncryptedInput.getMockImplementation()!(contractAddress, userAddress);
+      const encrypt = input.encrypt;
+      input.encrypt = () => proof.promise.then(() => encrypt());
+      return input;
+    });
+
+    let encryption!: Promise<any>;
+    act(() => {
+      encryption = result.current.encryptFields(CONTRACT_ADDRESS, USER_ADDRESS, {
+        diagnosis: { type: 'euint32', value: 412 },
+        urgent: { type: 'ebool', value: true },
+      });
+    });
+    await waitFor(() => expect(result.current.stage).toBe('proving'));
+    expect(result.current.isEncrypting).toBe(true);
+
+    await act(async () => {
+      proof.resolve(undefined);
+      await encryption;
+    });
+
+    const { handles, types, inputProof } = await encryption;
+    expect(instance.cleartexts.get(ethers.hexlify(handles.diagnosis))).toBe(412);
+    expect(instance.cleartexts.get(ethers.hexlify(handles.urgent))).toBe(true);
+    expect(types).toEqual({ diagnosis: 'euint32', urgent: 'ebool' });
+    expect(inputProof).toBeInstanceOf(Uint8Array);
+    expect(result.current.stage).toBe('done');
+    expect(result.current.isEncrypting).toBe(false);
+  });
+
+  it('cancels the encryption in flight', async () => {
+    const { instance, result } = await setup();
+    instance.createEncryptedInput.mockImplementationOnce((contractAddress: string, userAddress: string) => {
+      const input = instance.createEncryptedInput.getMockImplementation()!(contractAddress, userAddress);
+      input.encrypt = () => new Promise(() => {});
+      return input;
+    });
+
+    let encryption!: Promise<any>;
+    act(() => {
+      encryption = result.current.encryptFields(CONTRACT_ADDRESS, USER_ADDRESS, { diagnosis: { type: 'euint32', value: 1 } });
+    });
+    const rejection = expect(encryption).rejects.toBeInstanceOf(OperationAbortedError);
+
+    await act(async () => {
+      result.current.cancel();
+      await rejection;
+    });
+
+    expect(result.current.stage).toBe('cancelled');
+    expect(result.current.error).toBe('');
+  });
+
+  it('names the field that cannot be encrypted', async () => {
+    const { result } = await setup();
+
+    let failure: unknown;
+    await act(async () => {
+      await result.current.encryptFields(CONTRACT_ADDRESS, USER_ADDRESS, { age: { type: 'euint8', value: 300 } }).catch(err => {
+        failure = err;
+      });
+    });
+
+    expect(failure).toBeInstanceOf(InvalidInputError);
+    expect(result.current.stage).toBe('error');
+    expect(result.current.error).toMatch(/^Field "age"/);
+    expect(result.current.errorCode).toBe('INVALID_INPUT');
+  });
+
+  it('reports encryption before initialization', async () => {
+    const { result } = renderHook(() => useEncrypt(), { wrapper: withStore(new FhevmStore()) });
+
+    await act(async () => {
+      await result.current.encrypt(CONTRACT_ADDRESS, USER_ADDRESS, 1).catch(() => {});
+    });
+
+    expect(result.current.errorCode).toBe('NOT_INITIALIZED');
+  });
+
+  it("encrypts with its store's instance, not the default one", async () => {
+    const { instance: defaultInstance } = installBrowserEnvironment();
+    await initializeFheInstance();
+    const storeInstance = createFakeRelayerInstance();
+    installBrowserEnvironment({ instance: storeInstance });
+    const store = new FhevmStore();
+    await store.initialize({ network: 'hardhat' });
+    const { result } = renderHook(() => useEncrypt(), { wrapper: withStore(store) });
+
+    await act(() => result.current.encrypt(CONTRACT_ADDRESS, USER_ADDRESS, 412));
+
+    expect(storeInstance.createEncryptedInput).toHaveBeenCalledTimes(1);
+    expect(defaultInstance.createEncryptedInput).not.toHaveBeenCalled();
+    expect(getFheInstance()).toBe(defaultInstance);
+  });
+});
+
+describe('useDecrypt', () => {
+  async function setup() {
+    const env = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    const hook = renderHook(() => useDecrypt(), { wrapper: withStore(store) });
+    return { ...env, ...hook };
+  }
+
+  it('publishes the cleartext and waits for the verification transaction', async () => {
+    const { instance, result } = await setup();
+    const handle = instance.register('euint32', 412);
+    const tx = createFakeTransaction();
+    const verify = vi.fn(async () => tx);
+
+    const { decryptionResult, transactionReceipt } = await act(() =>
+      result.current.verifyDecryption([handle], CONTRACT_ADDRESS, verify)
+    );
+
+    expect(verify).toHaveBeenCalledWith(ethers.AbiCoder.defaultAbiCoder().encode(['uint32'], [412]), '0x1234');
+    expect(decryptionResult.clearValues[handle]).toBe(412n);
+    expect(transactionReceipt).toBe(tx.receipt);
+    expect(result.current.isDecrypting).toBe(false);
+  });
+
+  it('reports a reverted verification with its reason', async () => {
+    const { instance, result } = await setup();
+    const handle = instance.register('euint32', 412);
+    const tx = createFakeTransaction({ status: 0, revertData: encodeRevertReason('Diagnosis already verified') });
+
+    let failure: unknown;
+    await act(async () => {
+      await result.current.verifyDecryption([handle], CONTRACT_ADDRESS, async () => tx).catch(err => {
+        failure = err;
+      });
+    });
+
+    expect(failure).toBeInstanceOf(TransactionFailedError);
+    expect(result.current.errorCode).toBe('TRANSACTION_FAILED');
+    expect(result.current.error).toBe('Transaction reverted: Diagnosis already verified');
+  });
+
+  it('does not send the transaction without a KMS proof', async () => {
+    const { instance, result } = await setup();
+    const handle = instance.register('euint32', 412);
+    instance.publicDecrypt.mockResolvedValueOnce({ clearValues: { [handle]: 412n }, abiEncodedClearValues: '0x', decryptionProof: '0x' });
+    const verify = vi.fn();
+
+    await act(async () => {
+      await result.current.verifyDecryption([handle], CONTRACT_ADDRESS, verify).catch(() => {});
+    });
+
+    expect(verify).not.toHaveBeenCalled();
+    expect(result.current.errorCode).toBe('PROOF_VERIFICATION_FAILED');
+  });
+});
+
+describe('useUserDecrypt', () => {
+  it('decrypts once the instance is ready and serves repeats from the cache', async () => {
+    const { instance } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    const handles = [instance.register('euint32', 412), instance.register('ebool', true)];
+    const signer = createFakeSigner();
+
+    const first = renderHook(() => useUserDecrypt(handles, CONTRACT_ADDRESS, { signer }), { wrapper: withStore(store) });
+    expect(first.result.current.results).toEqual({});
+
+    await act(() => store.initialize());
+
+    await waitFor(() => expect(first.result.current.values).toEqual({ [handles[0]]: 412n, [handles[1]]: true }));
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+    expect(instance.userDecrypt).toHaveBeenCalledTimes(1);
+    expect(instance.userDecrypt.mock.calls[0][0]).toEqual(handles.map(handle => ({ handle, contractAddress: CONTRACT_ADDRESS })));
+
+    const second = renderHook(() => useUserDecrypt(handles, CONTRACT_ADDRESS, { signer }), { wrapper: withStore(store) });
+
+    await waitFor(() => expect(second.result.current.values).toEqual({ [handles[0]]: 412n, [handles[1]]: true }));
+    expect(instance.userDecrypt).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for a connected wallet when no signer is given', async () => {
+    const { instance } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    const handle = instance.register('euint32', 412);
+
+    const { result } = renderHook(() => useUserDecrypt([handle], CONTRACT_ADDRESS), { wrapper: withStore(store) });
+
+    await act(async () => {});
+    expect(result.current.results).toEqual({});
+    expect(instance.userDecrypt).not.toHaveBeenCalled();
+  });
+
+  it('decrypts on demand when disabled', async () => {
+    const { instance } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    const handle = instance.register('euint64', 7n);
+    const signer = createFakeSigner();
+
+    const { result } = renderHook(() => useUserDecrypt([handle], CONTRACT_ADDRESS, { signer, enabled: false }), {
+      wrapper: withStore(store),
+    });
+    await act(async () => {});
+    expect(instance.userDecrypt).not.toHaveBeenCalled();
+
+    await act(() => result.current.decrypt());
+
+    expect(result.current.values[handle]).toBe(7n);
+  });
+
+  it('reports an ACL denial for every handle it covers', async () => {
+    const { instance } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    const handles = [instance.register('euint32', 1), instance.register('euint32', 2)];
+    instance.userDecrypt.mockRejectedValue(new Error(`User ${USER_ADDRESS} is not authorized to user decrypt handle ${handles[0]}`));
+
+    const { result } = renderHook(() => useUserDecrypt(handles, CONTRACT_ADDRESS, { signer: createFakeSigner() }), {
+      wrapper: withStore(store),
+    });
+
+    await waitFor(() => expect(result.current.errorCode).toBe('ACL_DENIED'));
+    expect(result.current.results[handles[0]].status).toBe('error');
+    expect(result.current.results[handles[1]].status).toBe('error');
+    expect(result.current.isDecrypting).toBe(false);
+  });
+});
+
+describe('useFhevmTransaction', () => {
+  function setup(options: Parameters<typeof useFhevmTransaction>[0] = {}) {
+    return renderHook(() => useFhevmTransaction(options), { wrapper: withStore(new FhevmStore()) });
+  }
+
+  it('follows a transaction to the requested confirmations', async () => {
+    const events: TransactionEvent[] = [];
+    const { result } = setup({ confirmations: 2, onEvent: event => events.push(event) });
+    const tx = createFakeTransaction();
+
+    const outcome = await act(() => result.current.send(async () => tx as any, 'create case'));
+
+    expect(outcome).toEqual({ hash: tx.hash, receipt: tx.receipt, confirmations: 2, replacedHash: undefined });
+    expect(events.map(event => event.type)).toEqual(['submitted', 'mined', 'confirmation', 'confirmation', 'confirmed']);
+    expect(tx.wait).toHaveBeenLastCalledWith(2);
+    expect(result.current.status).toBe('confirmed');
+    expect(result.current.isConfirmed).toBe(true);
+    expect(result.current.confirmations).toBe(2);
+    expect(result.current.hash).toBe(tx.hash);
+  });
+
+  it('is pending until the transaction is mined', async () => {
+    const { result } = setup();
+    const tx = createFakeTransaction();
+    const mined = deferred<any>();
+    tx.wait.mockImplementationOnce(() => mined.promise);
+
+    let sending!: Promise<unknown>;
+    act(() => {
+      sending = result.current.send(async () => tx as any);
+    });
+    await waitFor(() => expect(result.current.status).toBe('submitted'));
+    expect(result.current.isPending).toBe(true);
+
+    await act(async () => {
+      mined.resolve(tx.receipt);
+      await sending;
+    });
+    expect(result.current.isPending).toBe(false);
+  });
+
+  it('follows a speed-up to the replacement hash', async () => {
+    const { result } = setup();
+    const original = createFakeTransaction();
+    const replacement = createFakeTransaction();
+    original.wait.mockRejectedValueOnce(
+      ethers.makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+        cancelled: false,
+        reason: 'repriced',
+        hash: original.hash,
+        replacement: replacement as any,
+        receipt: replacement.receipt as any,
+      })
+    );
+
+    const outcome = await act(() => result.current.send(async () => original as any));
+
+    expect(outcome.hash).toBe(replacement.hash);
+    expect(outcome.replacedHash).toBe(original.hash);
+    expect(result.current.status).toBe('confirmed');
+    expect(result.current.hash).toBe(replacement.hash);
+    expect(result.current.replacement).toEqual({ hash: original.hash, replacementHash: replacement.hash, reason: 'repriced' });
+  });
+
+  it('fails when the wallet cancels the transaction', async () => {
+    const { result } = setup();
+    const original = createFakeTransaction();
+    const cancellation = createFakeTransaction();
+    original.wait.mockRejectedValueOnce(
+      ethers.makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+        cancelled: true,
+        reason: 'cancelled',
+        hash: original.hash,
+        replacement: cancellation as any,
+        receipt: cancellation.receipt as any,
+      })
+    );
+
+    await act(async () => {
+      await result.current.send(async () => original as any).catch(() => {});
+    });
+
+    expect(result.current.status).toBe('failed');
+    expect(result.current.errorCode).toBe('TRANSACTION_FAILED');
+    expect(result.current.replacement?.reason).toBe('cancelled');
+  });
+
+  it('decodes the revert reason of a mined revert', async () => {
+    const { result } = setup();
+    const tx = createFakeTransaction({ status: 0, revertData: encodeRevertReason('Medical case already exists') });
+
+    let failure: unknown;
+    await act(async () => {
+      await result.current.send(async () => tx as any).catch(err => {
+        failure = err;
+      });
+    });
+
+    expect(failure).toBeInstanceOf(TransactionFailedError);
+    expect((failure as TransactionFailedError).hash).toBe(tx.hash);
+    expect(tx.provider.call).toHaveBeenCalledWith(expect.objectContaining({ to: CONTRACT_ADDRESS, blockTag: 7 }));
+    expect(result.current.status).toBe('reverted');
+    expect(result.current.revertReason).toBe('Medical case already exists');
+    expect(result.current.receipt).toBe(tx.receipt);
+    expect(result.current.errorCode).toBe('TRANSACTION_FAILED');
+  });
+
+  it('decodes custom errors raised at gas estimation with the contract interface', async () => {
+    const contractInterface = new ethers.Interface(['error CaseNotFound(string caseId)']);
+    const { result } = setup({ contractInterface });
+    const data = contractInterface.encodeErrorResult('CaseNotFound', ['case-1']);
+
+    await act(async () => {
+      await result.current.send(async () => Promise.reject(Object.assign(new Error('execution reverted'), { data }))).catch(() => {});
+    });
+
+    expect(result.current.status).toBe('failed');
+    expect(result.current.revertReason).toBe('CaseNotFound(case-1)');
+    expect(result.current.hash).toBe('');
+  });
+
+  it('reports a rejected signature and resets', async () => {
+    const { result } = setup();
+
+    await act(async () => {
+      await result.current.send(async () => Promise.reject({ code: 'ACTION_REJECTED', message: 'user rejected action' })).catch(() => {});
+    });
+    expect(result.current.status).toBe('failed');
+    expect(result.current.errorCode).toBe('SIGNATURE_REJECTED');
+
+    act(() => result.current.reset());
+
+    expect(result.current.status).toBe('idle');
+    expect(result.current.error).toBe('');
+  });
+});
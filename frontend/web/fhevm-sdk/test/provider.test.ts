@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { createNodeEip1193Provider, resolveNodeSigner, InvalidConfigError } from '../src/core/index.js';
+import { CONTRACT_ADDRESS, OTHER_ADDRESS } from './helpers.js';
+
+// Hardhat's first default account
+const PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+/**
+ * JsonRpcProvider that never touches the network - send() is a spy
+ */
+function createRpcProvider() {
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:8545', 31337, { staticNetwork: true });
+  const send = vi.spyOn(provider, 'send').mockImplementation(async (method: string) => {
+    if (method === 'eth_blockNumber') return '0x2a';
+    throw new Error(`Unexpected RPC call ${method}`);
+  });
+  return { provider, send };
+}
+
+const typedData = {
+  domain: { name: 'Decryption', version: '1', chainId: 31337, verifyingContract: CONTRACT_ADDRESS },
+  types: {
+    EIP712Domain: [
+      { name: 'name', type: 'string' },
+      { name: 'version', type: 'string' },
+      { name: 'chainId', type: 'uint256' },
+      { name: 'verifyingContract', type: 'address' },
+    ],
+    UserDecryptRequestVerification: [
+      { name: 'publicKey', type: 'bytes' },
+      { name: 'durationDays', type: 'uint256' },
+    ],
+  },
+  primaryType: 'UserDecryptRequestVerification',
+  message: { publicKey: '0x0a', durationDays: '10' },
+};
+
+describe('createNodeEip1193Provider', () => {
+  it('answers chain and account methods from the provider and signer', async () => {
+    const { provider } = createRpcProvider();
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+    const eip1193 = createNodeEip1193Provider(provider, wallet);
+
+    await expect(eip1193.request({ method: 'eth_chainId' })).resolves.toBe('0x7a69');
+    await expect(eip1193.request({ method: 'net_version' })).resolves.toBe('31337');
+    await expect(eip1193.request({ method: 'eth_accounts' })).resolves.toEqual([wallet.address]);
+  });
+
+  it('signs typed data without passing EIP712Domain on to ethers', async () => {
+    const { provider } = createRpcProvider();
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+    const signTypedData = vi.spyOn(wallet, 'signTypedData');
+    const eip1193 = createNodeEip1193Provider(provider, wallet);
+
+    // Wallets receive the JSON string form
+    const signature = await eip1193.request({
+      method: 'eth_signTypedData_v4',
+      params: [wallet.address.toLowerCase(), JSON.stringify(typedData)],
+    });
+
+    const { EIP712Domain: _domain, ...messageTypes } = typedData.types;
+    expect(signTypedData).toHaveBeenCalledWith(typedData.domain, messageTypes, typedData.message);
+    expect(ethers.verifyTypedData(typedData.domain, messageTypes, typedData.message, signature)).toBe(wallet.address);
+  });
+
+  it('refuses to sign for another account than the signer', async () => {
+    const { provider } = createRpcProvider();
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+    const signTypedData = vi.spyOn(wallet, 'signTypedData');
+    const eip1193 = createNodeEip1193Provider(provider, wallet);
+
+    await expect(
+      eip1193.request({ method: 'eth_signTypedData_v4', params: [OTHER_ADDRESS, typedData] })
+    ).rejects.toThrow(`eth_signTypedData_v4 requested for ${OTHER_ADDRESS}, but the signer is ${wallet.address}`);
+    await expect(eip1193.request({ method: 'personal_sign', params: ['0x1234', OTHER_ADDRESS] })).rejects.toBeInstanceOf(
+      InvalidConfigError
+    );
+    expect(signTypedData).not.toHaveBeenCalled();
+  });
+
+  it('hands eth_sendTransaction to the signer with an ethers request', async () => {
+    const { provider, send } = createRpcProvider();
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+    const sendTransaction = vi.spyOn(wallet, 'sendTransaction').mockResolvedValue({ hash: '0xfeed' } as any);
+    const eip1193 = createNodeEip1193Provider(provider, wallet);
+
+    const hash = await eip1193.request({
+      method: 'eth_sendTransaction',
+      params: [{ from: wallet.address, to: CONTRACT_ADDRESS, data: '0xabcdef', gas: '0x5208', value: '0x1', nonce: '0x3', chainId: '0x7a69' }],
+    });
+
+    expect(hash).toBe('0xfeed');
+    expect(sendTransaction).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: CONTRACT_ADDRESS,
+        from: wallet.address,
+        data: '0xabcdef',
+        gasLimit: '0x5208',
+        value: '0x1',
+        nonce: 3,
+        chainId: 31337n,
+      })
+    );
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it('rejects a transaction from another account before it reaches the signer', async () => {
+    const { provider } = createRpcProvider();
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+    const sendTransaction = vi.spyOn(wallet, 'sendTransaction');
+    const eip1193 = createNodeEip1193Provider(provider, wallet);
+
+    await expect(
+      eip1193.request({ method: 'eth_sendTransaction', params: [{ from: OTHER_ADDRESS, to: CONTRACT_ADDRESS }] })
+    ).rejects.toBeInstanceOf(InvalidConfigError);
+    expect(sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('forwards every other method to the RPC node', async () => {
+    const { provider, send } = createRpcProvider();
+    const eip1193 = createNodeEip1193Provider(provider, null);
+
+    await expect(eip1193.request({ method: 'eth_blockNumber' })).resolves.toBe('0x2a');
+    expect(send).toHaveBeenCalledWith('eth_blockNumber', []);
+  });
+
+  it('reports no accounts and needs a signer for signing without one', async () => {
+    const { provider } = createRpcProvider();
+    const eip1193 = createNodeEip1193Provider(provider, null);
+
+    await expect(eip1193.request({ method: 'eth_accounts' })).resolves.toEqual([]);
+    await expect(
+      eip1193.request({ method: 'eth_sendTransaction', params: [{ to: CONTRACT_ADDRESS }] })
+    ).rejects.toThrow(/eth_sendTransaction needs a signer/);
+  });
+});
+
+describe('resolveNodeSigner', () => {
+  it('turns a private key into a wallet on the provider', () => {
+    const { provider } = createRpcProvider();
+
+    const signer = resolveNodeSigner(provider, undefined, PRIVATE_KEY) as ethers.Wallet;
+
+    expect(signer.address).toBe(new ethers.Wallet(PRIVATE_KEY).address);
+    expect(signer.provider).toBe(provider);
+  });
+
+  it('connects a signer without a provider and keeps one that has its own', () => {
+    const { provider } = createRpcProvider();
+    const other = createRpcProvider().provider;
+    const connected = new ethers.Wallet(PRIVATE_KEY, other);
+
+    expect(resolveNodeSigner(provider, new ethers.Wallet(PRIVATE_KEY))!.provider).toBe(provider);
+    expect(resolveNodeSigner(provider, connected)).toBe(connected);
+    expect(resolveNodeSigner(provider)).toBeNull();
+  });
+
+  it('rejects a signer together with a private key, and invalid keys', () => {
+    const { provider } = createRpcProvider();
+
+    expect(() => resolveNodeSigner(provider, new ethers.Wallet(PRIVATE_KEY), PRIVATE_KEY)).toThrow(InvalidConfigError);
+    expect(() => resolveNodeSigner(provider, undefined, '0x1234')).toThrow('Invalid private key.');
+  });
+});
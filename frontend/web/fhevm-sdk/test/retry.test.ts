@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  withRetry,
+  backoffDelay,
+  isTransientError,
+  resolveRetryPolicy,
+  DEFAULT_RETRY_POLICY,
+  InvalidInputError,
+  OperationAbortedError,
+  RelayerUnavailableError,
+} from '../src/core/index.js';
+
+// Deterministic delays: 100ms, 200ms, 400ms, ...
+const policy = resolveRetryPolicy({ baseDelayMs: 100, jitter: false });
+
+const outage = () => new TypeError('Failed to fetch');
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries transient failures up to maxAttempts and throws the last error', async () => {
+    const operation = vi.fn(async () => {
+      throw outage();
+    });
+
+    const assertion = expect(withRetry(operation, policy)).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(operation).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(operation).toHaveBeenCalledTimes(3);
+
+    await assertion;
+    await vi.runAllTimersAsync();
+    expect(operation).toHaveBeenCalledTimes(DEFAULT_RETRY_POLICY.maxAttempts);
+  });
+
+  it('resolves once a retry succeeds', async () => {
+    const operation = vi.fn().mockRejectedValueOnce(outage()).mockResolvedValueOnce('ok');
+
+    const result = withRetry(operation, policy);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails at once on errors a retry cannot fix', async () => {
+    const operation = vi.fn(async () => {
+      throw new InvalidInputError('bad value');
+    });
+
+    await expect(withRetry(operation, policy)).rejects.toBeInstanceOf(InvalidInputError);
+    expect(operation).toHaveBeenCalledTimes(1);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('gives up on an attempt after the 60s default timeout', async () => {
+    const operation = vi.fn(() => new Promise<never>(() => {}));
+
+    const assertion = expect(withRetry(operation, resolveRetryPolicy({ maxAttempts: 1 }))).rejects.toThrow(
+      'Relayer did not respond within 60000ms'
+    );
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(operation).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await assertion;
+  });
+
+  it('treats a timed-out attempt as transient and retries it', async () => {
+    const operation = vi.fn().mockReturnValueOnce(new Promise(() => {})).mockResolvedValueOnce('ok');
+
+    const result = withRetry(operation, { ...policy, timeoutMs: 1000 });
+    await vi.advanceTimersByTimeAsync(1000 + 100);
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops during the backoff when the signal aborts', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn(async () => {
+      throw outage();
+    });
+
+    const assertion = expect(withRetry(operation, policy, controller.signal)).rejects.toBeInstanceOf(
+      OperationAbortedError
+    );
+    await vi.advanceTimersByTimeAsync(50);
+    controller.abort();
+
+    await assertion;
+    expect(vi.getTimerCount()).toBe(0);
+    await vi.runAllTimersAsync();
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops listening to the signal once the backoff elapses', async () => {
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, 'addEventListener');
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const operation = vi.fn().mockRejectedValueOnce(outage()).mockResolvedValueOnce('ok');
+
+    const result = withRetry(operation, policy, controller.signal);
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(removeListener).toHaveBeenCalledTimes(addListener.mock.calls.length);
+  });
+
+  it('abandons a pending attempt when the signal aborts', async () => {
+    const controller = new AbortController();
+    const result = withRetry(() => new Promise<never>(() => {}), policy, controller.signal);
+
+    controller.abort('user navigated away');
+
+    await expect(result).rejects.toMatchObject({ code: 'ABORTED', cause: 'user navigated away' });
+  });
+
+  it('never calls the operation with an already aborted signal', async () => {
+    const operation = vi.fn(async () => 'ok');
+
+    await expect(withRetry(operation, policy, AbortSignal.abort())).rejects.toBeInstanceOf(OperationAbortedError);
+    expect(operation).not.toHaveBeenCalled();
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles per attempt up to maxDelayMs', () => {
+    const capped = { ...policy, maxDelayMs: 300 };
+
+    expect([1, 2, 3, 4].map(attempt => backoffDelay(capped, attempt))).toEqual([100, 200, 300, 300]);
+  });
+
+  it('draws a jittered delay below the computed backoff', () => {
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(backoffDelay({ ...policy, jitter: true }, 3)).toBe(200);
+
+    random.mockRestore();
+  });
+});
+
+describe('retry policy', () => {
+  it('classifies relayer outages as transient only', () => {
+    expect(isTransientError(outage())).toBe(true);
+    expect(isTransientError(new RelayerUnavailableError('rate limited'))).toBe(true);
+    expect(isTransientError(new InvalidInputError('bad value'))).toBe(false);
+    expect(isTransientError({ code: 4001, message: 'User rejected the request' })).toBe(false);
+  });
+
+  it('keeps at least one attempt', () => {
+    expect(resolveRetryPolicy({ maxAttempts: 0 }).maxAttempts).toBe(1);
+    expect(resolveRetryPolicy({ maxAttempts: 2.7 }).maxAttempts).toBe(2);
+    expect(resolveRetryPolicy(undefined, { timeoutMs: 5 })).toEqual({ ...DEFAULT_RETRY_POLICY, timeoutMs: 5 });
+  });
+});
@@ -0,0 +1,18 @@
+import 'fake-indexeddb/auto';
+import { afterEach, vi } from 'vitest';
+import { cleanup } from '@testing-library/react';
+import { resetFheInstance } from '../src/core/index.js';
+import { clearUserDecryptCache } from '../src/adapters/react.js';
+import { uninstallBrowserEnvironment } from './helpers.js';
+
+// The SDK logs every step - keep the test output readable
+vi.spyOn(console, 'log').mockImplementation(() => {});
+vi.spyOn(console, 'warn').mockImplementation(() => {});
+vi.spyOn(console, 'error').mockImplementation(() => {});
+
+afterEach(() => {
+  cleanup();
+  resetFheInstance();
+  clearUserDecryptCache();
+  uninstallBrowserEnvironment();
+});
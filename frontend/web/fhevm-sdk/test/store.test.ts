@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FhevmStore, FHEVM_NETWORKS, getFheInstance } from '../src/core/index.js';
+import {
+  USER_ADDRESS,
+  HARDHAT_CHAIN_ID_HEX,
+  MAINNET_CHAIN_ID_HEX,
+  createFakeRelayerInstance,
+  deferred,
+  installBrowserEnvironment,
+} from './helpers.js';
+
+/**
+ * Wallet on Sepolia whose Sepolia instance is only created once the test
+ * resolves it - hardhat instances are created at once
+ */
+function setup() {
+  const env = installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+  const sepoliaInstance = createFakeRelayerInstance();
+  const hardhatInstance = createFakeRelayerInstance();
+  const slowSepolia = deferred<any>();
+  env.sdk.createInstance.mockImplementation(async (config: any) =>
+    config.chainId === FHEVM_NETWORKS.hardhat.chainId ? hardhatInstance : slowSepolia.promise
+  );
+  return { ...env, sepoliaInstance, hardhatInstance, slowSepolia };
+}
+
+// Lets a superseded initialization run to its end
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('FhevmStore', () => {
+  it('keeps the new chain client when the wallet switches during a pending initialization', async () => {
+    const { ethereum, sdk, sepoliaInstance, hardhatInstance, slowSepolia } = setup();
+    const store = new FhevmStore({ installDefaultClient: true });
+    const stop = store.followWallet();
+    await vi.waitFor(() => expect(sdk.createInstance).toHaveBeenCalledTimes(1));
+
+    ethereum.emit('chainChanged', HARDHAT_CHAIN_ID_HEX);
+    await vi.waitFor(() => expect(store.getSnapshot().status).toBe('ready'));
+
+    slowSepolia.resolve(sepoliaInstance);
+    await flush();
+
+    expect(store.getSnapshot()).toMatchObject({ status: 'ready', chainId: 31337, instance: hardhatInstance });
+    expect(store.getClient().getInstance()).toBe(hardhatInstance);
+    expect(getFheInstance()).toBe(hardhatInstance);
+    stop();
+  });
+
+  it('installs no client from an initialization that finishes after the chain became unsupported', async () => {
+    const { ethereum, sdk, sepoliaInstance, slowSepolia } = setup();
+    const store = new FhevmStore({ installDefaultClient: true });
+    const stop = store.followWallet();
+    await vi.waitFor(() => expect(sdk.createInstance).toHaveBeenCalledTimes(1));
+
+    ethereum.emit('chainChanged', MAINNET_CHAIN_ID_HEX);
+    await vi.waitFor(() => expect(store.getSnapshot().status).toBe('unsupported-chain'));
+
+    slowSepolia.resolve(sepoliaInstance);
+    await flush();
+
+    expect(store.getSnapshot()).toMatchObject({ status: 'unsupported-chain', instance: null });
+    expect(store.getClient().getInstance()).toBeNull();
+    expect(getFheInstance()).toBeNull();
+    stop();
+  });
+
+  it('keeps separate stores on their own clients', async () => {
+    const { sepoliaInstance, hardhatInstance, slowSepolia } = setup();
+    slowSepolia.resolve(sepoliaInstance);
+    const defaultStore = new FhevmStore({ installDefaultClient: true });
+    const other = new FhevmStore();
+
+    await defaultStore.initialize();
+    await other.initialize({ network: 'hardhat' });
+
+    expect(defaultStore.getClient().getInstance()).toBe(sepoliaInstance);
+    expect(other.getClient().getInstance()).toBe(hardhatInstance);
+    // Only the store behind getFhevmStore() backs the free functions
+    expect(getFheInstance()).toBe(sepoliaInstance);
+  });
+
+  it('drops its client on reset', async () => {
+    const { sepoliaInstance, slowSepolia } = setup();
+    slowSepolia.resolve(sepoliaInstance);
+    const store = new FhevmStore({ installDefaultClient: true });
+    await store.initialize();
+
+    store.reset();
+
+    expect(store.getSnapshot().status).toBe('idle');
+    expect(store.getClient().getInstance()).toBeNull();
+    expect(getFheInstance()).toBeNull();
+  });
+
+  it('releases whenSettled() waiters when a pending initialization is reset', async () => {
+    setup();
+    const store = new FhevmStore();
+    void store.initialize();
+    const settled = vi.fn();
+    store.whenSettled().then(settled);
+
+    store.reset();
+    await flush();
+
+    expect(settled).toHaveBeenCalled();
+    expect(store.getSnapshot().status).toBe('idle');
+  });
+
+  it('releases whenSettled() waiters when a pending initialization is superseded', async () => {
+    const { slowSepolia, sepoliaInstance } = setup();
+    const store = new FhevmStore();
+    void store.initialize();
+    const settled = vi.fn();
+    store.whenSettled().then(settled);
+
+    // Still loading, but no longer the initialization that was awaited
+    void store.initialize();
+    await flush();
+
+    expect(settled).toHaveBeenCalled();
+    expect(store.getSnapshot().status).toBe('loading');
+    slowSepolia.resolve(sepoliaInstance);
+  });
+});
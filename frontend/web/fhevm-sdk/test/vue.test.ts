@@ -0,0 +1,382 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { App, createApp, defineComponent, h, nextTick, ref } from 'vue';
+import { ethers } from 'ethers';
+import { FhevmStore, FHEVM_NETWORKS, TransactionFailedError } from '../src/core/index.js';
+import {
+  FHEVM_STORE_KEY,
+  provideFhevm,
+  useWallet,
+  useFhevm,
+  useContract,
+  useEncrypt,
+  useDecrypt,
+  useUserDecrypt,
+} from '../src/adapters/vue.js';
+import {
+  CONTRACT_ADDRESS,
+  USER_ADDRESS,
+  HARDHAT_CHAIN_ID_HEX,
+  MAINNET_CHAIN_ID_HEX,
+  createFakeTransaction,
+  deferred,
+  encodeRevertReason,
+  installBrowserEnvironment,
+} from './helpers.js';
+
+const mounted: App[] = [];
+
+afterEach(() => {
+  mounted.splice(0).forEach(app => app.unmount());
+});
+
+/**
+ * Calls the composable in a child component's setup below a root that
+ * either provides `store` as-is or through provideFhevm()
+ */
+function mountComposable<T>(composable: () => T, provideStore: (app: App) => void, rootSetup = () => {}) {
+  let result!: T;
+  const Child = defineComponent({
+    setup() {
+      result = composable();
+      return () => null;
+    },
+  });
+  const app = createApp(
+    defineComponent({
+      setup() {
+        rootSetup();
+        return () => h(Child);
+      },
+    })
+  );
+  provideStore(app);
+  app.mount(document.createElement('div'));
+  mounted.push(app);
+
+  return {
+    result,
+    unmount: () => {
+      mounted.splice(mounted.indexOf(app), 1);
+      app.unmount();
+    },
+  };
+}
+
+function withStore<T>(store: FhevmStore, composable: () => T) {
+  return mountComposable(composable, app => app.provide(FHEVM_STORE_KEY, store));
+}
+
+function withProvider<T>(store: FhevmStore, composable: () => T) {
+  return mountComposable(composable, () => {}, () => provideFhevm({ store }));
+}
+
+function createFakeSigner(address = USER_ADDRESS) {
+  return {
+    provider: null,
+    getAddress: vi.fn(async () => address),
+    signTypedData: vi.fn(async () => '0x5151'),
+  } as any;
+}
+
+describe('provideFhevm', () => {
+  it('initializes on mount and shares the store with the composables below', async () => {
+    const { instance, sdk } = installBrowserEnvironment();
+    const store = new FhevmStore();
+
+    const { result } = withProvider(store, () => useFhevm());
+
+    await vi.waitFor(() => expect(result.status.value).toBe('ready'));
+    expect(result.instance.value).toBe(instance);
+    expect(result.network.value?.chainId).toBe(FHEVM_NETWORKS.sepolia.chainId);
+    expect(sdk.createInstance).toHaveBeenCalledTimes(1);
+  });
+
+  it('re-creates the instance when the wallet switches chain', async () => {
+    const { ethereum, sdk } = installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const store = new FhevmStore();
+    const { result } = withProvider(store, () => useFhevm());
+    await vi.waitFor(() => expect(result.status.value).toBe('ready'));
+
+    ethereum.emit('chainChanged', HARDHAT_CHAIN_ID_HEX);
+
+    await vi.waitFor(() => expect(result.network.value?.chainId).toBe(FHEVM_NETWORKS.hardhat.chainId));
+    await vi.waitFor(() => expect(result.status.value).toBe('ready'));
+    expect(sdk.createInstance).toHaveBeenLastCalledWith(expect.objectContaining({ chainId: FHEVM_NETWORKS.hardhat.chainId }));
+  });
+
+  it('reports a chain without an FHEVM deployment', async () => {
+    const { ethereum } = installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const store = new FhevmStore();
+    const { result } = withProvider(store, () => useFhevm());
+    await vi.waitFor(() => expect(result.status.value).toBe('ready'));
+
+    ethereum.emit('chainChanged', MAINNET_CHAIN_ID_HEX);
+
+    expect(result.status.value).toBe('unsupported-chain');
+    expect(result.isUnsupportedChain.value).toBe(true);
+    expect(result.errorCode.value).toBe('UNSUPPORTED_CHAIN');
+    expect(result.instance.value).toBeNull();
+  });
+
+  it('stops listening to the wallet when unmounted', async () => {
+    const { ethereum } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    const { result, unmount } = withProvider(store, () => useFhevm());
+    await vi.waitFor(() => expect(result.status.value).toBe('ready'));
+    expect(ethereum.listenerCount('chainChanged')).toBe(1);
+
+    unmount();
+
+    expect(ethereum.listenerCount('chainChanged')).toBe(0);
+    expect(ethereum.listenerCount('accountsChanged')).toBe(0);
+  });
+});
+
+describe('useFhevm', () => {
+  it('initializes and follows the wallet when given options', async () => {
+    const { sdk } = installBrowserEnvironment({ chainId: HARDHAT_CHAIN_ID_HEX });
+    const store = new FhevmStore();
+
+    const { result } = withStore(store, () => useFhevm({ network: 'hardhat' }));
+
+    await vi.waitFor(() => expect(result.isInitialized.value).toBe(true));
+    expect(sdk.createInstance).toHaveBeenCalledTimes(1);
+    expect(sdk.createInstance).toHaveBeenCalledWith(expect.objectContaining({ chainId: FHEVM_NETWORKS.hardhat.chainId }));
+  });
+
+  it('only reads the store without options', async () => {
+    const { sdk } = installBrowserEnvironment();
+    const store = new FhevmStore();
+
+    const { result } = withStore(store, () => useFhevm());
+    await nextTick();
+    expect(result.status.value).toBe('idle');
+    expect(sdk.createInstance).not.toHaveBeenCalled();
+
+    await result.initialize();
+
+    expect(result.status.value).toBe('ready');
+  });
+});
+
+describe('useWallet', () => {
+  it('connects through the store', async () => {
+    installBrowserEnvironment({ accounts: [USER_ADDRESS], chainId: HARDHAT_CHAIN_ID_HEX });
+    const store = new FhevmStore();
+    const { result } = withStore(store, () => useWallet());
+
+    await result.connect();
+
+    expect(result.address.value).toBe(USER_ADDRESS);
+    expect(result.isConnected.value).toBe(true);
+    expect(result.chainId.value).toBe(31337);
+    expect(store.getSnapshot().wallet.address).toBe(USER_ADDRESS);
+  });
+});
+
+describe('useContract', () => {
+  function createFakeFactory() {
+    return {
+      connect: vi.fn((address: string, runner?: ethers.ContractRunner | null) => ({ address, runner })),
+    };
+  }
+
+  it("switches to the wallet's signer once it is connected", async () => {
+    installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const factory = createFakeFactory();
+
+    const { result } = withStore(new FhevmStore(), () => useContract(CONTRACT_ADDRESS, factory));
+
+    await vi.waitFor(() => expect(result.isSigner.value).toBe(true));
+    const signer = result.contract.value?.runner as ethers.JsonRpcSigner;
+    expect(signer).toBeInstanceOf(ethers.JsonRpcSigner);
+    expect(signer.address).toBe(USER_ADDRESS);
+  });
+
+  it("stays read-only in 'read' mode", async () => {
+    installBrowserEnvironment({ accounts: [USER_ADDRESS] });
+    const store = new FhevmStore();
+
+    const { result } = withStore(store, () => useContract(CONTRACT_ADDRESS, createFakeFactory(), { mode: 'read' }));
+
+    await vi.waitFor(() => expect(store.getSnapshot().wallet.isConnected).toBe(true));
+    await vi.waitFor(() => expect(result.isReady.value).toBe(true));
+    expect(result.isSigner.value).toBe(false);
+    expect(result.contract.value?.runner).toBeInstanceOf(ethers.BrowserProvider);
+  });
+
+  it('follows an address ref', async () => {
+    installBrowserEnvironment();
+    const address = ref<string | undefined>(undefined);
+    const abi = ['function getAllCaseIds() view returns (string[])'];
+
+    const { result } = withStore(new FhevmStore(), () => useContract(address, abi));
+    await nextTick();
+    expect(result.contract.value).toBeNull();
+
+    address.value = CONTRACT_ADDRESS;
+
+    await vi.waitFor(() => expect(result.isReady.value).toBe(true));
+    expect(result.contract.value).toBeInstanceOf(ethers.Contract);
+    expect(result.contract.value?.target).toBe(CONTRACT_ADDRESS);
+  });
+});
+
+describe('useEncrypt', () => {
+  async function setup() {
+    const env = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    return { ...env, ...withStore(store, () => useEncrypt()) };
+  }
+
+  it("encrypts with its store's instance", async () => {
+    const { instance, result } = await setup();
+
+    const encrypted = await result.encrypt(CONTRACT_ADDRESS, USER_ADDRESS, 412);
+
+    expect(instance.cleartexts.get(ethers.hexlify(encrypted.handles[0]))).toBe(412);
+    expect(result.error.value).toBe('');
+  });
+
+  it('encrypts a field map under one proof and reports its stages', async () => {
+    const { instance, result } = await setup();
+    const proof = deferred<void>();
+    instance.createEncryptedInput.mockImplementationOnce((contractAddress: string, userAddress: string) => {
+      const input = instance.createEncryptedInput.getMockImplementation()!(contractAddress, userAddress);
+      const encrypt = input.encrypt;
+      input.encrypt = () => proof.promise.then(() => encrypt());
+      return input;
+    });
+
+    const encryption = result.encryptFields(CONTRACT_ADDRESS, USER_ADDRESS, {
+      diagnosis: { type: 'euint32', value: 412 },
+      urgent: { type: 'ebool', value: true },
+    });
+    await vi.waitFor(() => expect(result.stage.value).toBe('proving'));
+    expect(result.isEncrypting.value).toBe(true);
+
+    proof.resolve();
+    const encrypted = await encryption;
+
+    expect(Object.keys(encrypted.handles)).toEqual(['diagnosis', 'urgent']);
+    expect(result.stage.value).toBe('done');
+    expect(result.isEncrypting.value).toBe(false);
+  });
+
+  it('cancels the encryption in flight', async () => {
+    const { instance, result } = await setup();
+    instance.createEncryptedInput.mockImplementationOnce((contractAddress: string, userAddress: string) => {
+      const input = instance.createEncryptedInput.getMockImplementation()!(contractAddress, userAddress);
+      input.encrypt = () => new Promise(() => {});
+      return input;
+    });
+
+    const encryption = result.encryptFields(CONTRACT_ADDRESS, USER_ADDRESS, { age: { type: 'euint8', value: 42 } });
+    await vi.waitFor(() => expect(result.stage.value).toBe('proving'));
+    result.cancel();
+
+    await expect(encryption).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(result.stage.value).toBe('cancelled');
+  });
+});
+
+describe('useDecrypt', () => {
+  async function setup() {
+    const env = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    return { ...env, ...withStore(store, () => useDecrypt()) };
+  }
+
+  it('publishes the cleartext and waits for the verification transaction', async () => {
+    const { instance, result } = await setup();
+    const handle = instance.register('euint32', 412);
+    const tx = createFakeTransaction();
+
+    const { decryptionResult, transactionReceipt } = await result.verifyDecryption([handle], CONTRACT_ADDRESS, async () => tx);
+
+    expect(decryptionResult.clearValues[handle]).toBe(412n);
+    expect(transactionReceipt).toBe(tx.receipt);
+    expect(result.isDecrypting.value).toBe(false);
+  });
+
+  it('reports a reverted verification with its reason', async () => {
+    const { instance, result } = await setup();
+    const handle = instance.register('euint32', 412);
+    const tx = createFakeTransaction({ status: 0, revertData: encodeRevertReason('Diagnosis already verified') });
+
+    await expect(result.verifyDecryption([handle], CONTRACT_ADDRESS, async () => tx)).rejects.toBeInstanceOf(
+      TransactionFailedError
+    );
+    expect(result.errorCode.value).toBe('TRANSACTION_FAILED');
+    expect(result.error.value).toBe('Transaction reverted: Diagnosis already verified');
+  });
+});
+
+describe('useUserDecrypt', () => {
+  it('decrypts once the instance is ready and serves repeats from the cache', async () => {
+    const { instance } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    const handles = [instance.register('euint32', 412), instance.register('ebool', true)];
+    const signer = createFakeSigner();
+
+    const first = withStore(store, () => useUserDecrypt(handles, CONTRACT_ADDRESS, { signer }));
+    expect(first.result.results.value).toEqual({});
+
+    await store.initialize();
+
+    await vi.waitFor(() => expect(first.result.values.value).toEqual({ [handles[0]]: 412n, [handles[1]]: true }));
+    expect(signer.signTypedData).toHaveBeenCalledTimes(1);
+
+    const second = withStore(store, () => useUserDecrypt(handles, CONTRACT_ADDRESS, { signer }));
+
+    await vi.waitFor(() => expect(second.result.values.value).toEqual({ [handles[0]]: 412n, [handles[1]]: true }));
+    expect(instance.userDecrypt).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts over when the handles change', async () => {
+    const { instance } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    const handles = ref([instance.register('euint32', 1)]);
+
+    const { result } = withStore(store, () => useUserDecrypt(handles, CONTRACT_ADDRESS, { signer: createFakeSigner() }));
+    await vi.waitFor(() => expect(result.values.value).toEqual({ [handles.value[0]]: 1n }));
+
+    handles.value = [instance.register('euint32', 2)];
+
+    await vi.waitFor(() => expect(result.values.value).toEqual({ [handles.value[0]]: 2n }));
+  });
+
+  it('decrypts on demand when disabled', async () => {
+    const { instance } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    const handle = instance.register('euint64', 7n);
+
+    const { result } = withStore(store, () =>
+      useUserDecrypt([handle], CONTRACT_ADDRESS, { signer: createFakeSigner(), enabled: false })
+    );
+    await nextTick();
+    expect(instance.userDecrypt).not.toHaveBeenCalled();
+
+    await result.decrypt();
+
+    expect(result.values.value[handle]).toBe(7n);
+  });
+
+  it('reports an ACL denial for every handle it covers', async () => {
+    const { instance } = installBrowserEnvironment();
+    const store = new FhevmStore();
+    await store.initialize();
+    const handles = [instance.register('euint32', 1), instance.register('euint32', 2)];
+    instance.userDecrypt.mockRejectedValue(new Error(`User ${USER_ADDRESS} is not authorized to user decrypt handle ${handles[0]}`));
+
+    const { result } = withStore(store, () => useUserDecrypt(handles, CONTRACT_ADDRESS, { signer: createFakeSigner() }));
+
+    await vi.waitFor(() => expect(result.errorCode.value).toBe('ACL_DENIED'));
+    expect(result.results.value[handles[1]].status).toBe('error');
+    expect(result.isDecrypting.value).toBe(false);
+  });
+});
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+// Standalone config - the app's vite.config.ts in the parent directory is not for the SDK
+export default defineConfig({
+  test: {
+    environment: 'jsdom',
+    include: ['test/**/*.test.{ts,tsx}'],
+    setupFiles: ['test/setup.ts'],
+    coverage: {
+      provider: 'v8',
+      include: ['src/**/*.ts'],
+      exclude: ['src/types/**'],
+    },
+  },
+});
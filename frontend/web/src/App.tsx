@@ -2,31 +2,49 @@ import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import React, { useEffect, useState } from "react";
 import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import { CaseAssignments, getCaseAssignments, getAssignmentRole, parseSpecialistAddresses } from "./components/assignments";
+import { DisclosurePolicy, DISCLOSURE_POLICY_LABELS, getCaseDisclosure, getDecryptionMode } from "./components/disclosure";
+import { appNetworkLabel } from "./components/network";
+import { SecondOp_FHE__factory } from "./typechain";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import {
+  useFhevm,
+  useEncrypt,
+  useDecrypt,
+  useFhevmTransaction,
+  TransactionEvent,
+  decryptValue,
+  toSafeNumber,
+  requestAssignment as requestCaseAssignment,
+  assignSpecialists as assignCaseSpecialists
+} from '../fhevm-sdk/src';
 import { ethers } from 'ethers';
 
+// One SecondOp_FHE medical case - `id` is the string key it is stored under
 interface MedicalRecord {
   id: string;
-  patientName: string;
-  age: number;
-  conditionScore: number;
-  urgencyLevel: number;
+  patientId: string;
+  caseIdentifier: number;
+  medicalHistory: string;
+  specialist: string;
   timestamp: number;
-  creator: string;
-  description: string;
-  isVerified?: boolean;
-  decryptedValue?: number;
+  isVerified: boolean;
+  disclosurePolicy: DisclosurePolicy;
+  isDisclosed: boolean;
+  // Verified on-chain value, or one this account decrypted privately
+  decryptedDiagnosis?: number;
 }
 
 interface MedicalStats {
   totalRecords: number;
   verifiedRecords: number;
-  avgConditionScore: number;
-  highUrgencyCases: number;
+  pendingRecords: number;
+  specialists: number;
 }
 
+const contractInterface = SecondOp_FHE__factory.createInterface();
+
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
   const [loading, setLoading] = useState(true);
@@ -40,13 +58,16 @@ const App: React.FC = () => {
     message: "" 
   });
   const [newRecordData, setNewRecordData] = useState({ 
-    patientName: "", 
-    age: "", 
-    conditionScore: "", 
-    urgencyLevel: "",
-    description: ""
+    patientId: "", 
+    diagnosis: "", 
+    caseIdentifier: "", 
+    medicalHistory: "",
+    disclosurePolicy: String(DisclosurePolicy.Private)
   });
   const [selectedRecord, setSelectedRecord] = useState<MedicalRecord | null>(null);
+  const [assignments, setAssignments] = useState<CaseAssignments | null>(null);
+  const [updatingAssignments, setUpdatingAssignments] = useState(false);
+  const [userDecrypting, setUserDecrypting] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [filteredRecords, setFilteredRecords] = useState<MedicalRecord[]>([]);
   const [showFAQ, setShowFAQ] = useState(false);
@@ -54,39 +75,34 @@ const App: React.FC = () => {
   const [stats, setStats] = useState<MedicalStats>({
     totalRecords: 0,
     verifiedRecords: 0,
-    avgConditionScore: 0,
-    highUrgencyCases: 0
+    pendingRecords: 0,
+    specialists: 0
   });
   const [contractAddress, setContractAddress] = useState("");
-  const [fhevmInitializing, setFhevmInitializing] = useState(false);
 
-  const { status, initialize, isInitialized } = useFhevm();
+  const { status, isInitialized, isUnsupportedChain } = useFhevm();
   const { encrypt, isEncrypting } = useEncrypt();
   const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const onTransactionEvent = (event: TransactionEvent) => {
+    if (event.type === "submitted") {
+      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
+    } else if (event.type === "replaced" && event.reason === "repriced") {
+      setTransactionStatus({ visible: true, status: "pending", message: "Transaction sped up, waiting for confirmation..." });
+    }
+  };
+  const { send: sendTransaction } = useFhevmTransaction({ contractInterface, onEvent: onTransactionEvent });
 
+  // FhevmProvider (main.tsx) initializes FHEVM and re-initializes on wallet changes
   useEffect(() => {
-    const initFhevmAfterConnection = async () => {
-      if (!isConnected) return;
-      if (isInitialized) return;
-      if (fhevmInitializing) return;
-      
-      try {
-        setFhevmInitializing(true);
-        await initialize();
-      } catch (error) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "error", 
-          message: "FHEVM initialization failed" 
-        });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      } finally {
-        setFhevmInitializing(false);
-      }
-    };
-
-    initFhevmAfterConnection();
-  }, [isConnected, isInitialized, initialize, fhevmInitializing]);
+    if (status !== "error") return;
+    setTransactionStatus({ 
+      visible: true, 
+      status: "error", 
+      message: "FHEVM initialization failed" 
+    });
+    const timer = setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+    return () => clearTimeout(timer);
+  }, [status]);
 
   useEffect(() => {
     const loadDataAndContract = async () => {
@@ -109,10 +125,16 @@ const App: React.FC = () => {
     loadDataAndContract();
   }, [isConnected]);
 
+  useEffect(() => {
+    setAssignments(null);
+    if (selectedRecord) loadAssignments(selectedRecord.id);
+  }, [selectedRecord?.id]);
+
   useEffect(() => {
     const filtered = records.filter(record =>
-      record.patientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      record.description.toLowerCase().includes(searchTerm.toLowerCase())
+      record.patientId.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      record.medicalHistory.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      String(record.caseIdentifier).includes(searchTerm)
     );
     setFilteredRecords(filtered);
   }, [searchTerm, records]);
@@ -121,16 +143,14 @@ const App: React.FC = () => {
     const calculateStats = () => {
       const totalRecords = records.length;
       const verifiedRecords = records.filter(r => r.isVerified).length;
-      const avgConditionScore = records.length > 0 
-        ? records.reduce((sum, r) => sum + r.conditionScore, 0) / records.length 
-        : 0;
-      const highUrgencyCases = records.filter(r => r.urgencyLevel >= 8).length;
+      const pendingRecords = totalRecords - verifiedRecords;
+      const specialists = new Set(records.map(r => r.specialist.toLowerCase())).size;
 
       setStats({
         totalRecords,
         verifiedRecords,
-        avgConditionScore,
-        highUrgencyCases
+        pendingRecords,
+        specialists
       });
     };
 
@@ -152,30 +172,34 @@ const App: React.FC = () => {
       const contract = await getContractReadOnly();
       if (!contract) return;
       
-      const businessIds = await contract.getAllBusinessIds();
+      const caseIds = await contract.getAllCaseIds();
       const recordsList: MedicalRecord[] = [];
       
-      for (const businessId of businessIds) {
+      for (const caseId of caseIds) {
         try {
-          const businessData = await contract.getBusinessData(businessId);
+          const [medicalCase, disclosure] = await Promise.all([
+            contract.getMedicalCase(caseId),
+            getCaseDisclosure(contract, caseId)
+          ]);
           recordsList.push({
-            id: businessId,
-            patientName: businessData.name,
-            age: Number(businessData.publicValue1) || 0,
-            conditionScore: Number(businessData.publicValue2) || 0,
-            urgencyLevel: Number(businessData.publicValue2) || 0,
-            timestamp: Number(businessData.timestamp),
-            creator: businessData.creator,
-            description: businessData.description,
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0
+            id: caseId,
+            patientId: medicalCase.patientId,
+            caseIdentifier: Number(medicalCase.caseIdentifier),
+            medicalHistory: medicalCase.medicalHistory,
+            specialist: medicalCase.specialist,
+            timestamp: Number(medicalCase.timestamp),
+            isVerified: medicalCase.isVerified,
+            disclosurePolicy: disclosure.policy,
+            isDisclosed: disclosure.isDisclosed,
+            decryptedDiagnosis: medicalCase.isVerified ? Number(medicalCase.decryptedDiagnosis) : undefined
           });
         } catch (e) {
-          console.error('Error loading business data:', e);
+          console.error('Error loading medical case:', e);
         }
       }
       
       setRecords(recordsList);
+      setSelectedRecord(prev => prev && (recordsList.find(r => r.id === prev.id) ?? null));
       addToHistory(`Loaded ${recordsList.length} medical records`);
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
@@ -193,53 +217,50 @@ const App: React.FC = () => {
     }
     
     setCreatingRecord(true);
-    setTransactionStatus({ visible: true, status: "pending", message: "Creating medical record with FHE encryption..." });
+    setTransactionStatus({ visible: true, status: "pending", message: "Creating medical case with FHE encryption..." });
     
     try {
       const contract = await getContractWithSigner();
       if (!contract) throw new Error("Failed to get contract with signer");
       
-      const ageValue = parseInt(newRecordData.age) || 0;
-      const businessId = `medical-${Date.now()}`;
+      const diagnosisCode = parseInt(newRecordData.diagnosis) || 0;
+      const caseId = `case-${Date.now()}`;
       
-      const encryptedResult = await encrypt(contractAddress, address, ageValue);
+      const encryptedResult = await encrypt(contractAddress, address, diagnosisCode);
       
-      const tx = await contract.createBusinessData(
-        businessId,
-        newRecordData.patientName,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
-        parseInt(newRecordData.conditionScore) || 0,
-        parseInt(newRecordData.urgencyLevel) || 0,
-        newRecordData.description
-      );
-      
-      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
-      await tx.wait();
+      await sendTransaction(() => contract.createMedicalCase(
+        caseId,
+        newRecordData.patientId,
+        encryptedResult.handles[0],
+        encryptedResult.inputProof,
+        BigInt(parseInt(newRecordData.caseIdentifier) || 0),
+        newRecordData.medicalHistory,
+        Number(newRecordData.disclosurePolicy)
+      ), caseId);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Medical record created successfully!" });
-      addToHistory(`Created record for ${newRecordData.patientName}`);
+      setTransactionStatus({ visible: true, status: "success", message: "Medical case created successfully!" });
+      addToHistory(`Created case for patient ${newRecordData.patientId}`);
       
       await loadData();
       setShowCreateModal(false);
       setNewRecordData({ 
-        patientName: "", 
-        age: "", 
-        conditionScore: "", 
-        urgencyLevel: "",
-        description: ""
+        patientId: "", 
+        diagnosis: "", 
+        caseIdentifier: "", 
+        medicalHistory: "",
+        disclosurePolicy: String(DisclosurePolicy.Private)
       });
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
+      const errorMessage = e.code === "SIGNATURE_REJECTED"
         ? "Transaction rejected by user" 
-        : "Submission failed: " + (e.message || "Unknown error");
+        : "Submission failed: " + (e.revertReason || e.message || "Unknown error");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
     } finally { 
       setCreatingRecord(false); 
     }
   };
 
-  const decryptData = async (businessId: string): Promise<number | null> => {
+  const decryptData = async (caseId: string): Promise<number | null> => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -250,45 +271,168 @@ const App: React.FC = () => {
       const contractRead = await getContractReadOnly();
       if (!contractRead) return null;
       
-      const businessData = await contractRead.getBusinessData(businessId);
-      if (businessData.isVerified) {
-        const storedValue = Number(businessData.decryptedValue) || 0;
-        setTransactionStatus({ visible: true, status: "success", message: "Data already verified on-chain" });
-        addToHistory(`Verified decryption for record ${businessId}`);
+      const medicalCase = await contractRead.getMedicalCase(caseId);
+      if (medicalCase.isVerified) {
+        const storedValue = Number(medicalCase.decryptedDiagnosis) || 0;
+        setTransactionStatus({ visible: true, status: "success", message: "Diagnosis already verified on-chain" });
+        addToHistory(`Verified diagnosis for case ${caseId}`);
         return storedValue;
       }
       
+      // The case's policy decides between a private user decryption and the public, on-chain verified one
+      const [disclosure, assignments] = await Promise.all([
+        getCaseDisclosure(contractRead, caseId),
+        getCaseAssignments(contractRead, caseId)
+      ]);
+      const mode = getDecryptionMode(disclosure, getAssignmentRole(assignments, address));
+      
+      if (mode === "none") {
+        setTransactionStatus({ visible: true, status: "error", message: "You do not have access to this diagnosis" });
+        return null;
+      }
+      
+      const encryptedDiagnosisHandle = await contractRead.getEncryptedDiagnosis(caseId);
+      
+      if (mode === "user") {
+        setUserDecrypting(true);
+        setTransactionStatus({ visible: true, status: "pending", message: "Decrypting diagnosis privately..." });
+        
+        const signer = await new ethers.BrowserProvider((window as any).ethereum).getSigner();
+        const clearValue = toSafeNumber(await decryptValue(encryptedDiagnosisHandle, contractAddress, signer));
+        
+        const withValue = (r: MedicalRecord) => r.id === caseId ? { ...r, decryptedDiagnosis: clearValue } : r;
+        setRecords(prev => prev.map(withValue));
+        setSelectedRecord(prev => prev && withValue(prev));
+        addToHistory(`Privately decrypted diagnosis for case ${caseId}`);
+        
+        setTransactionStatus({ visible: true, status: "success", message: "Diagnosis decrypted - visible only to you" });
+        return clearValue;
+      }
+      
       const contractWrite = await getContractWithSigner();
       if (!contractWrite) return null;
       
-      const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
-      
       const result = await verifyDecryption(
-        [encryptedValueHandle],
+        [encryptedDiagnosisHandle],
         contractAddress,
         (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
+          contractWrite.verifyDiagnosis(caseId, abiEncodedClearValues, decryptionProof)
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption on-chain..." });
       
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
+      const clearValue = result.decryptionResult.clearValues[encryptedDiagnosisHandle];
       
       await loadData();
-      addToHistory(`Decrypted and verified record ${businessId}`);
+      addToHistory(`Decrypted and verified diagnosis for case ${caseId}`);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Data decrypted and verified successfully!" });
-      return Number(clearValue);
+      setTransactionStatus({ visible: true, status: "success", message: "Diagnosis decrypted and verified successfully!" });
+      return toSafeNumber(clearValue);
       
     } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
-        setTransactionStatus({ visible: true, status: "success", message: "Data is already verified on-chain" });
+      if (e.revertReason === "Diagnosis already verified") {
+        setTransactionStatus({ visible: true, status: "success", message: "Diagnosis is already verified on-chain" });
         await loadData();
         return null;
       }
       
       setTransactionStatus({ visible: true, status: "error", message: "Decryption failed: " + (e.message || "Unknown error") });
       return null; 
+    } finally {
+      setUserDecrypting(false);
+    }
+  };
+
+  const approveDisclosure = async (caseId: string) => {
+    if (!isConnected || !address) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return; 
+    }
+    
+    setUpdatingAssignments(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Approving public disclosure..." });
+    
+    try {
+      const contract = await getContractWithSigner();
+      await sendTransaction(() => contract.approveDisclosure(caseId), `disclose-${caseId}`);
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Diagnosis can now be publicly verified" });
+      addToHistory(`Approved public disclosure for case ${caseId}`);
+      await loadData();
+    } catch (e: any) {
+      const errorMessage = e.code === "SIGNATURE_REJECTED"
+        ? "Transaction rejected by user" 
+        : "Approval failed: " + (e.revertReason || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setUpdatingAssignments(false);
+    }
+  };
+
+  const loadAssignments = async (caseId: string) => {
+    try {
+      const contract = await getContractReadOnly();
+      if (!contract) return;
+      setAssignments(await getCaseAssignments(contract, caseId));
+    } catch (e) {
+      console.error("Failed to load assignments:", e);
+    }
+  };
+
+  const requestAssignment = async (caseId: string) => {
+    if (!isConnected || !address) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return; 
+    }
+    
+    setUpdatingAssignments(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Requesting review access..." });
+    
+    try {
+      const contract = await getContractWithSigner();
+      await requestCaseAssignment(contract, caseId, { onEvent: onTransactionEvent });
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Review requested from the case creator" });
+      addToHistory(`Requested review access for case ${caseId}`);
+      await loadAssignments(caseId);
+    } catch (e: any) {
+      const errorMessage = e.code === "SIGNATURE_REJECTED"
+        ? "Transaction rejected by user" 
+        : "Request failed: " + (e.revertReason || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+    } finally {
+      setUpdatingAssignments(false);
+    }
+  };
+
+  const assignSpecialists = async (caseId: string, specialists: string[]): Promise<boolean> => {
+    if (!isConnected || !address) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return false; 
+    }
+    
+    setUpdatingAssignments(true);
+    setTransactionStatus({ visible: true, status: "pending", message: "Granting access to the encrypted diagnosis..." });
+    
+    try {
+      const contract = await getContractWithSigner();
+      await assignCaseSpecialists(contract, caseId, specialists, { onEvent: onTransactionEvent });
+      
+      setTransactionStatus({ visible: true, status: "success", message: `Assigned ${specialists.length} specialist(s)` });
+      addToHistory(`Assigned ${specialists.length} specialist(s) to case ${caseId}`);
+      await loadAssignments(caseId);
+      return true;
+    } catch (e: any) {
+      const errorMessage = e.code === "SIGNATURE_REJECTED"
+        ? "Transaction rejected by user" 
+        : "Assignment failed: " + (e.revertReason || e.message || "Unknown error");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      return false;
+    } finally {
+      setUpdatingAssignments(false);
     }
   };
 
@@ -321,48 +465,15 @@ const App: React.FC = () => {
         </div>
         
         <div className="stat-panel metal-bronze">
-          <h3>Avg Condition</h3>
-          <div className="stat-value">{stats.avgConditionScore.toFixed(1)}/10</div>
-          <div className="stat-trend">Patient Health</div>
+          <h3>Pending Review</h3>
+          <div className="stat-value">{stats.pendingRecords}</div>
+          <div className="stat-trend">Awaiting Verification</div>
         </div>
         
         <div className="stat-panel metal-copper">
-          <h3>Urgent Cases</h3>
-          <div className="stat-value">{stats.highUrgencyCases}</div>
-          <div className="stat-trend">Need Attention</div>
-        </div>
-      </div>
-    );
-  };
-
-  const renderConditionChart = (record: MedicalRecord) => {
-    const condition = record.isVerified ? (record.decryptedValue || 0) : record.age;
-    
-    return (
-      <div className="condition-chart">
-        <div className="chart-row">
-          <div className="chart-label">Patient Age</div>
-          <div className="chart-bar">
-            <div className="bar-fill" style={{ width: `${Math.min(100, condition)}%` }}>
-              <span className="bar-value">{condition} years</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">Condition Score</div>
-          <div className="chart-bar">
-            <div className="bar-fill" style={{ width: `${record.conditionScore * 10}%` }}>
-              <span className="bar-value">{record.conditionScore}/10</span>
-            </div>
-          </div>
-        </div>
-        <div className="chart-row">
-          <div className="chart-label">Urgency Level</div>
-          <div className="chart-bar">
-            <div className="bar-fill urgency" style={{ width: `${record.urgencyLevel * 10}%` }}>
-              <span className="bar-value">{record.urgencyLevel}/10</span>
-            </div>
-          </div>
+          <h3>Specialists</h3>
+          <div className="stat-value">{stats.specialists}</div>
+          <div className="stat-trend">Submitting Cases</div>
         </div>
       </div>
     );
@@ -374,8 +485,8 @@ const App: React.FC = () => {
         <div className="process-step">
           <div className="step-icon">🔒</div>
           <div className="step-content">
-            <h4>Medical Data Encryption</h4>
-            <p>Patient age encrypted with FHE technology</p>
+            <h4>Diagnosis Encryption</h4>
+            <p>Diagnosis code encrypted with FHE technology</p>
           </div>
         </div>
         <div className="process-arrow">→</div>
@@ -405,7 +516,7 @@ const App: React.FC = () => {
     },
     {
       question: "What data is encrypted?",
-      answer: "Patient age is FHE-encrypted. Other medical scores remain public for expert assessment."
+      answer: "The diagnosis code is FHE-encrypted. The patient ID, case number and medical history remain public for expert assessment."
     },
     {
       question: "How long is data stored?",
@@ -413,7 +524,7 @@ const App: React.FC = () => {
     },
     {
       question: "Who can access my records?",
-      answer: "Only authorized medical experts with proper credentials can access encrypted records."
+      answer: "That depends on the disclosure policy chosen when the case is created. Private cases can only be decrypted by their creator. Specialist-only cases can also be decrypted by the specialists the creator assigns, and other specialists can request a review. Public-after-verification cases stay with the creator and assigned specialists until one of those specialists approves disclosure, after which anyone can decrypt the diagnosis and verify it on-chain."
     }
   ];
 
@@ -455,12 +566,21 @@ const App: React.FC = () => {
     );
   }
 
-  if (!isInitialized || fhevmInitializing) {
+  if (isUnsupportedChain) {
+    return (
+      <div className="loading-screen">
+        <p>This network is not supported by the Medical FHE System.</p>
+        <p>Please switch your wallet to {appNetworkLabel}.</p>
+      </div>
+    );
+  }
+
+  if (!isInitialized) {
     return (
       <div className="loading-screen">
         <div className="fhe-spinner"></div>
         <p>Initializing Medical FHE System...</p>
-        <p>Status: {fhevmInitializing ? "Initializing FHEVM" : status}</p>
+        <p>Status: {status}</p>
       </div>
     );
   }
@@ -561,18 +681,17 @@ const App: React.FC = () => {
                 onClick={() => setSelectedRecord(record)}
               >
                 <div className="record-header">
-                  <div className="patient-name">{record.patientName}</div>
+                  <div className="patient-name">Patient {record.patientId}</div>
                   <div className="record-status">
-                    {record.isVerified ? "✅ Verified" : "🔓 Pending Verification"}
+                    {record.isVerified ? "✅ Verified" : `🔒 ${DISCLOSURE_POLICY_LABELS[record.disclosurePolicy]}`}
                   </div>
                 </div>
                 <div className="record-meta">
-                  <span>Condition: {record.conditionScore}/10</span>
-                  <span>Urgency: {record.urgencyLevel}/10</span>
+                  <span>Case #{record.caseIdentifier}</span>
                   <span>Date: {new Date(record.timestamp * 1000).toLocaleDateString()}</span>
                 </div>
-                <div className="record-description">{record.description}</div>
-                <div className="record-creator">Doctor: {record.creator.substring(0, 6)}...{record.creator.substring(38)}</div>
+                <div className="record-description">{record.medicalHistory}</div>
+                <div className="record-creator">Specialist: {record.specialist.substring(0, 6)}...{record.specialist.substring(38)}</div>
               </div>
             ))}
           </div>
@@ -594,9 +713,14 @@ const App: React.FC = () => {
         <RecordDetailModal 
           record={selectedRecord} 
           onClose={() => setSelectedRecord(null)} 
-          isDecrypting={fheIsDecrypting} 
+          isDecrypting={fheIsDecrypting || userDecrypting} 
           decryptData={() => decryptData(selectedRecord.id)}
-          renderConditionChart={renderConditionChart}
+          account={address}
+          assignments={assignments}
+          updatingAssignments={updatingAssignments}
+          onRequestAssignment={() => requestAssignment(selectedRecord.id)}
+          onAssignSpecialists={(specialists) => assignSpecialists(selectedRecord.id, specialists)}
+          onApproveDisclosure={() => approveDisclosure(selectedRecord.id)}
         />
       )}
       
@@ -624,7 +748,7 @@ const ModalCreateRecord: React.FC<{
   setRecordData: (data: any) => void;
   isEncrypting: boolean;
 }> = ({ onSubmit, onClose, creating, recordData, setRecordData, isEncrypting }) => {
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setRecordData({ ...recordData, [name]: value });
   };
@@ -633,78 +757,76 @@ const ModalCreateRecord: React.FC<{
     <div className="modal-overlay">
       <div className="create-record-modal">
         <div className="modal-header">
-          <h2>New Medical Record</h2>
+          <h2>New Medical Case</h2>
           <button onClick={onClose} className="close-modal">×</button>
         </div>
         
         <div className="modal-body">
           <div className="fhe-notice">
             <strong>FHE 🔐 Protection</strong>
-            <p>Patient age will be encrypted with FHE technology for privacy</p>
+            <p>The diagnosis code will be encrypted with FHE technology for privacy</p>
           </div>
           
           <div className="form-group">
-            <label>Patient Name *</label>
+            <label>Patient ID *</label>
             <input 
               type="text" 
-              name="patientName" 
-              value={recordData.patientName} 
+              name="patientId" 
+              value={recordData.patientId} 
               onChange={handleChange} 
-              placeholder="Enter patient name..." 
+              placeholder="Enter patient ID..." 
             />
           </div>
           
           <div className="form-group">
-            <label>Patient Age (FHE Encrypted) *</label>
+            <label>Diagnosis Code (FHE Encrypted) *</label>
             <input 
               type="number" 
-              name="age" 
-              value={recordData.age} 
+              name="diagnosis" 
+              value={recordData.diagnosis} 
               onChange={handleChange} 
-              placeholder="Enter age..." 
+              placeholder="Enter diagnosis code..." 
               min="0"
-              max="120"
             />
             <div className="data-type-label">FHE Encrypted Integer</div>
           </div>
           
           <div className="form-group">
-            <label>Condition Score (1-10) *</label>
+            <label>Case Number *</label>
             <input 
               type="number" 
-              name="conditionScore" 
-              value={recordData.conditionScore} 
+              name="caseIdentifier" 
+              value={recordData.caseIdentifier} 
               onChange={handleChange} 
-              placeholder="1-10 scale..." 
-              min="1"
-              max="10"
+              placeholder="Enter case number..." 
+              min="0"
             />
             <div className="data-type-label">Public Medical Data</div>
           </div>
           
           <div className="form-group">
-            <label>Urgency Level (1-10) *</label>
-            <input 
-              type="number" 
-              name="urgencyLevel" 
-              value={recordData.urgencyLevel} 
+            <label>Medical History *</label>
+            <textarea 
+              name="medicalHistory" 
+              value={recordData.medicalHistory} 
               onChange={handleChange} 
-              placeholder="1-10 scale..." 
-              min="1"
-              max="10"
+              placeholder="Describe the patient's medical history..." 
+              rows={3}
             />
-            <div className="data-type-label">Public Medical Data</div>
           </div>
           
           <div className="form-group">
-            <label>Medical Description *</label>
-            <textarea 
-              name="description" 
-              value={recordData.description} 
-              onChange={handleChange} 
-              placeholder="Describe the medical condition..." 
-              rows={3}
-            />
+            <label>Diagnosis Disclosure *</label>
+            <select 
+              name="disclosurePolicy" 
+              value={recordData.disclosurePolicy} 
+              onChange={handleChange}
+            >
+              <option value={DisclosurePolicy.Private}>Private - only you can decrypt</option>
+              <option value={DisclosurePolicy.SpecialistOnly}>Specialists only - you and assigned specialists</option>
+              <option value={DisclosurePolicy.PublicAfterVerification}>Public after verification - disclosed once a specialist approves</option>
+            </select>
+            <div className="data-type-label">Fixed once the case is created</div>
           </div>
         </div>
         
@@ -712,10 +834,10 @@ const ModalCreateRecord: React.FC<{
           <button onClick={onClose} className="cancel-btn">Cancel</button>
           <button 
             onClick={onSubmit} 
-            disabled={creating || isEncrypting || !recordData.patientName || !recordData.age} 
+            disabled={creating || isEncrypting || !recordData.patientId || !recordData.diagnosis} 
             className="submit-btn"
           >
-            {creating || isEncrypting ? "Encrypting and Creating..." : "Create Secure Record"}
+            {creating || isEncrypting ? "Encrypting and Creating..." : "Create Secure Case"}
           </button>
         </div>
       </div>
@@ -728,29 +850,64 @@ const RecordDetailModal: React.FC<{
   onClose: () => void;
   isDecrypting: boolean;
   decryptData: () => Promise<number | null>;
-  renderConditionChart: (record: MedicalRecord) => JSX.Element;
-}> = ({ record, onClose, isDecrypting, decryptData, renderConditionChart }) => {
+  account?: string;
+  assignments: CaseAssignments | null;
+  updatingAssignments: boolean;
+  onRequestAssignment: () => void;
+  onAssignSpecialists: (specialists: string[]) => Promise<boolean>;
+  onApproveDisclosure: () => void;
+}> = ({ record, onClose, isDecrypting, decryptData, account, assignments, updatingAssignments, onRequestAssignment, onAssignSpecialists, onApproveDisclosure }) => {
+  const [specialistInput, setSpecialistInput] = useState("");
+  const [inputError, setInputError] = useState("");
+  const role = assignments ? getAssignmentRole(assignments, account) : "none";
+  const mode = getDecryptionMode({ policy: record.disclosurePolicy, isDisclosed: record.isDisclosed }, role);
+  const isPrivate = record.disclosurePolicy === DisclosurePolicy.Private;
+
   const handleDecrypt = async () => {
     await decryptData();
   };
 
+  const handleAssign = async (specialists: string[]) => {
+    if (await onAssignSpecialists(specialists)) setSpecialistInput("");
+  };
+
+  const handleAssignInput = async () => {
+    try {
+      const specialists = parseSpecialistAddresses(specialistInput);
+      setInputError("");
+      await handleAssign(specialists);
+    } catch (e: any) {
+      setInputError(e.message);
+    }
+  };
+
+  const shortAddress = (a: string) => `${a.substring(0, 6)}...${a.substring(38)}`;
+
   return (
     <div className="modal-overlay">
       <div className="record-detail-modal">
         <div className="modal-header">
-          <h2>Medical Record Details</h2>
+          <h2>Medical Case Details</h2>
           <button onClick={onClose} className="close-modal">×</button>
         </div>
         
         <div className="modal-body">
           <div className="record-info">
             <div className="info-item">
-              <span>Patient Name:</span>
-              <strong>{record.patientName}</strong>
+              <span>Patient ID:</span>
+              <strong>{record.patientId}</strong>
             </div>
             <div className="info-item">
-              <span>Doctor:</span>
-              <strong>{record.creator.substring(0, 6)}...{record.creator.substring(38)}</strong>
+              <span>Case Number:</span>
+              <strong>#{record.caseIdentifier}</strong>
+            </div>
+            <div className="info-item">
+              <span>Specialist:</span>
+              <strong>{record.specialist.substring(0, 6)}...{record.specialist.substring(38)}</strong>
+            </div>
+            <div className="info-item">
+              <span>Disclosure:</span>
+              <strong>{DISCLOSURE_POLICY_LABELS[record.disclosurePolicy]}{record.isDisclosed ? " (disclosed)" : ""}</strong>
             </div>
             <div className="info-item">
               <span>Date Created:</span>
@@ -760,37 +917,131 @@ const RecordDetailModal: React.FC<{
           
           <div className="data-section">
             <h3>Medical Data Analysis</h3>
-            {renderConditionChart(record)}
             
             <div className="encryption-section">
               <div className="data-row">
-                <div className="data-label">Patient Age:</div>
+                <div className="data-label">Diagnosis Code:</div>
                 <div className="data-value">
-                  {record.isVerified && record.decryptedValue ? 
-                    `${record.decryptedValue} years (Verified)` : 
+                  {record.decryptedDiagnosis !== undefined ? 
+                    `${record.decryptedDiagnosis} (${record.isVerified ? "Verified" : "Private"})` : 
                     "🔒 FHE Encrypted"
                   }
                 </div>
                 <button 
                   className={`decrypt-btn ${record.isVerified ? 'verified' : ''}`}
                   onClick={handleDecrypt} 
-                  disabled={isDecrypting}
+                  disabled={isDecrypting || (!record.isVerified && mode === "none")}
                 >
-                  {isDecrypting ? "Decrypting..." : record.isVerified ? "✅ Verified" : "🔓 Verify Age"}
+                  {isDecrypting ? "Decrypting..." : 
+                    record.isVerified ? "✅ Verified" : 
+                    mode === "public" ? "🔓 Verify Diagnosis" : 
+                    mode === "user" ? "🔑 Decrypt Privately" : "🔒 No Access"}
                 </button>
               </div>
             </div>
             
             <div className="medical-description">
-              <h4>Medical Description</h4>
-              <p>{record.description}</p>
+              <h4>Medical History</h4>
+              <p>{record.medicalHistory}</p>
             </div>
           </div>
+          
+          <div className="data-section assignments-section">
+            <h3>Reviewing Specialists</h3>
+            
+            {isPrivate ? (
+              <p className="data-type-label">Private case - the diagnosis is not shared with other specialists</p>
+            ) : !assignments ? (
+              <p className="data-type-label">Loading assignments...</p>
+            ) : (
+              <>
+                {assignments.specialists.length === 0 ? (
+                  <p className="data-type-label">No specialists assigned yet</p>
+                ) : (
+                  <div className="assignment-list">
+                    {assignments.specialists.map(specialist => (
+                      <div className="assignment-item" key={specialist}>
+                        <span>{shortAddress(specialist)}</span>
+                        <span className="data-type-label">
+                          {assignments.access[specialist] ? "🔑 Can decrypt" : "⏳ Grant pending"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                
+                {role === "creator" && (
+                  <>
+                    {assignments.requests.length > 0 && (
+                      <div className="assignment-list">
+                        <h4>Review Requests</h4>
+                        {assignments.requests.map(requester => (
+                          <div className="assignment-item" key={requester}>
+                            <span>{shortAddress(requester)}</span>
+                            <button 
+                              className="decrypt-btn" 
+                              onClick={() => handleAssign([requester])} 
+                              disabled={updatingAssignments}
+                            >
+                              Grant Access
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    
+                    <div className="form-group">
+                      <label>Assign Specialists</label>
+                      <input 
+                        type="text" 
+                        value={specialistInput} 
+                        onChange={(e) => setSpecialistInput(e.target.value)} 
+                        placeholder="0x... addresses, comma separated" 
+                      />
+                      {inputError && <div className="data-type-label">{inputError}</div>}
+                    </div>
+                    <button 
+                      className="decrypt-btn" 
+                      onClick={handleAssignInput} 
+                      disabled={updatingAssignments || !specialistInput.trim()}
+                    >
+                      {updatingAssignments ? "Granting..." : "🔑 Grant Access"}
+                    </button>
+                  </>
+                )}
+                
+                {role === "assigned" && (
+                  <p className="data-type-label">You are assigned to review this case</p>
+                )}
+                {role === "assigned" && record.disclosurePolicy === DisclosurePolicy.PublicAfterVerification && !record.isDisclosed && (
+                  <button 
+                    className="decrypt-btn" 
+                    onClick={onApproveDisclosure} 
+                    disabled={updatingAssignments}
+                  >
+                    {updatingAssignments ? "Approving..." : "📢 Approve Public Disclosure"}
+                  </button>
+                )}
+                {role === "requested" && (
+                  <p className="data-type-label">Your review request is waiting for the case creator</p>
+                )}
+                {role === "none" && account && (
+                  <button 
+                    className="decrypt-btn" 
+                    onClick={onRequestAssignment} 
+                    disabled={updatingAssignments}
+                  >
+                    {updatingAssignments ? "Requesting..." : "🩺 Request Review"}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
         </div>
         
         <div className="modal-footer">
           <button onClick={onClose} className="close-btn">Close</button>
-          {!record.isVerified && (
+          {!record.isVerified && mode === "public" && (
             <button onClick={handleDecrypt} disabled={isDecrypting} className="verify-btn">
               Verify on Blockchain
             </button>
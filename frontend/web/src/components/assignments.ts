@@ -0,0 +1,43 @@
+// assignments.ts
+import { getHandleAccess, listAssignments, normalizeAddresses } from "../../fhevm-sdk/src";
+import { SecondOp_FHE } from "../typechain";
+import { appNetworkPreset } from "./network";
+
+// Who may user-decrypt one case's diagnosis, and who is waiting for a grant
+export interface CaseAssignments {
+  creator: string;
+  specialists: string[];
+  requests: string[];
+  // ACL view of creator + specialists - true once FHE.allow has landed for them
+  access: Record<string, boolean>;
+}
+
+export type AssignmentRole = "creator" | "assigned" | "requested" | "none";
+
+export async function getCaseAssignments(contract: SecondOp_FHE, caseId: string): Promise<CaseAssignments> {
+  const [medicalCase, { specialists, requests }, handle] = await Promise.all([
+    contract.getMedicalCase(caseId),
+    listAssignments(contract, caseId),
+    contract.getEncryptedDiagnosis(caseId)
+  ]);
+
+  const creator = medicalCase.specialist;
+  // The read-only contract is pinned to the app's network, so is its ACL
+  const access = await getHandleAccess(handle, [creator, ...specialists], contract.runner!, { network: appNetworkPreset });
+
+  return { creator, specialists, requests, access };
+}
+
+export function getAssignmentRole(assignments: CaseAssignments, account?: string): AssignmentRole {
+  if (!account) return "none";
+  const same = (a: string) => a.toLowerCase() === account.toLowerCase();
+  if (same(assignments.creator)) return "creator";
+  if (assignments.specialists.some(same)) return "assigned";
+  if (assignments.requests.some(same)) return "requested";
+  return "none";
+}
+
+// Comma/whitespace separated addresses -> checksummed, de-duplicated list
+export function parseSpecialistAddresses(input: string): string[] {
+  return normalizeAddresses(input.split(/[\s,]+/).filter(Boolean));
+}
@@ -0,0 +1,41 @@
+// disclosure.ts
+import { SecondOp_FHE } from "../typechain";
+import { AssignmentRole } from "./assignments";
+
+// Mirrors SecondOp_FHE.DisclosurePolicy
+export enum DisclosurePolicy {
+  Private = 0,
+  SpecialistOnly = 1,
+  PublicAfterVerification = 2
+}
+
+export const DISCLOSURE_POLICY_LABELS: Record<DisclosurePolicy, string> = {
+  [DisclosurePolicy.Private]: "Private",
+  [DisclosurePolicy.SpecialistOnly]: "Specialists only",
+  [DisclosurePolicy.PublicAfterVerification]: "Public after verification"
+};
+
+export interface CaseDisclosure {
+  policy: DisclosurePolicy;
+  // FHE.makePubliclyDecryptable was called - only ever for PublicAfterVerification
+  isDisclosed: boolean;
+}
+
+// "public" - anyone may public-decrypt and verify the diagnosis on-chain
+// "user" - the account holds an FHE.allow grant and decrypts privately (EIP-712)
+// "none" - the account cannot read the diagnosis
+export type DecryptionMode = "public" | "user" | "none";
+
+export async function getCaseDisclosure(contract: SecondOp_FHE, caseId: string): Promise<CaseDisclosure> {
+  const [policy, isDisclosed] = await Promise.all([
+    contract.disclosurePolicies(caseId),
+    contract.isDisclosed(caseId)
+  ]);
+  return { policy: Number(policy) as DisclosurePolicy, isDisclosed };
+}
+
+export function getDecryptionMode(disclosure: CaseDisclosure, role: AssignmentRole): DecryptionMode {
+  if (disclosure.policy === DisclosurePolicy.PublicAfterVerification && disclosure.isDisclosed) return "public";
+  if (role === "creator" || role === "assigned") return "user";
+  return "none";
+}
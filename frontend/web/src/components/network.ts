@@ -0,0 +1,13 @@
+// network.ts
+import { FHEVM_NETWORKS, FhevmNetworkPreset } from "../../fhevm-sdk/src";
+
+// FHEVM_MODE=mock runs against a local `npx hardhat node` instead of Sepolia -
+// contract reads, wallet writes and the FHEVM instance all use that one chain
+export const isMockMode = process.env.FHEVM_MODE === "mock";
+
+export const appNetworkPreset: FhevmNetworkPreset = isMockMode ? "hardhat" : "sepolia";
+export const appNetwork = FHEVM_NETWORKS[appNetworkPreset];
+export const appNetworkLabel = isMockMode ? "Hardhat (localhost)" : "Sepolia";
+
+// Same form as window.ethereum.chainId
+export const appChainIdHex = "0x" + appNetwork.chainId.toString(16);
@@ -1,9 +1,9 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "../abi/UniversalFHEAdapter.json";
+import { SecondOp_FHE, SecondOp_FHE__factory } from "../typechain";
 import configJson from "../config.json";
+import { appChainIdHex, appNetwork, appNetworkLabel, isMockMode } from "./network";
 
-export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
@@ -19,6 +19,14 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
 };
 
 const getTestnetProvider = async () => {
+  if (isMockMode) {
+    // Offline - the local node is the only RPC there is
+    return new ethers.JsonRpcProvider(appNetwork.rpcUrl, {
+      name: "hardhat",
+      chainId: appNetwork.chainId
+    });
+  }
+
   const rpcUrls = [
     "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
     "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
@@ -49,10 +57,10 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+export async function getContractReadOnly(): Promise<SecondOp_FHE | null> {
   try {
     const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const contract = SecondOp_FHE__factory.connect(config.contractAddress, provider);
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
@@ -66,7 +74,7 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<SecondOp_FHE> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
@@ -75,14 +83,14 @@ export async function getContractWithSigner() {
   // const network = await provider.getNetwork();
   // console.log("network ID:", network.chainId);
 
-  if (window.ethereum && window.ethereum.chainId !== '0xaa36a7') {
-    alert("Please switch to Sepolia test network");
+  if (window.ethereum && window.ethereum.chainId !== appChainIdHex) {
+    alert(`Please switch to the ${appNetworkLabel} network`);
   }
 
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = SecondOp_FHE__factory.connect(config.contractAddress, signer);
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
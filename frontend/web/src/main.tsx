@@ -1,19 +1,22 @@
 import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import { FhevmProvider } from '../fhevm-sdk/src';
 import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
 import { BrowserRouter } from 'react-router-dom';
+import { isMockMode } from './components/network';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  // Mock mode never leaves the local hardhat node
+  chains: isMockMode ? [hardhat] : [sepolia],
 });
 
 const queryClient = new QueryClient();
@@ -122,7 +125,10 @@ createRoot(document.getElementById('root')!).render(
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            {/* FHEVM_MODE=mock runs against a local `npx hardhat node` instead of the Zama relayer */}
+            <FhevmProvider config={isMockMode ? { mode: 'mock' } : undefined}>
+              <App />
+            </FhevmProvider>
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
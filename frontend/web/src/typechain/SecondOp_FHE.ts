@@ -0,0 +1,674 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "./common";
+
+export interface SecondOp_FHEInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "approveDisclosure"
+      | "assignSpecialists"
+      | "caseIds"
+      | "confidentialProtocolId"
+      | "createMedicalCase"
+      | "disclosurePolicies"
+      | "getAllCaseIds"
+      | "getAssignedSpecialists"
+      | "getEncryptedDiagnosis"
+      | "getMedicalCase"
+      | "getPendingAssignmentRequests"
+      | "hasRequestedAssignment"
+      | "isAssignedSpecialist"
+      | "isAvailable"
+      | "isDisclosed"
+      | "medicalCases"
+      | "requestAssignment"
+      | "verifyDiagnosis"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AssignmentRequested"
+      | "DiagnosisDisclosed"
+      | "DiagnosisVerified"
+      | "MedicalCaseCreated"
+      | "PublicDecryptionVerified"
+      | "SpecialistAssigned"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "approveDisclosure",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "assignSpecialists",
+    values: [string, AddressLike[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "caseIds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createMedicalCase",
+    values: [
+      string,
+      string,
+      BytesLike,
+      BytesLike,
+      BigNumberish,
+      string,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "disclosurePolicies",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAllCaseIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAssignedSpecialists",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedDiagnosis",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMedicalCase",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingAssignmentRequests",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRequestedAssignment",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAssignedSpecialist",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isAvailable",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "isDisclosed", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "medicalCases",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestAssignment",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifyDiagnosis",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "approveDisclosure",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "assignSpecialists",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "caseIds", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createMedicalCase",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "disclosurePolicies",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllCaseIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAssignedSpecialists",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedDiagnosis",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMedicalCase",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingAssignmentRequests",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasRequestedAssignment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAssignedSpecialist",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAvailable",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isDisclosed",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "medicalCases",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAssignment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifyDiagnosis",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AssignmentRequestedEvent {
+  export type InputTuple = [caseId: string, specialist: AddressLike];
+  export type OutputTuple = [caseId: string, specialist: string];
+  export interface OutputObject {
+    caseId: string;
+    specialist: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DiagnosisDisclosedEvent {
+  export type InputTuple = [caseId: string, specialist: AddressLike];
+  export type OutputTuple = [caseId: string, specialist: string];
+  export interface OutputObject {
+    caseId: string;
+    specialist: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DiagnosisVerifiedEvent {
+  export type InputTuple = [caseId: string, decryptedDiagnosis: BigNumberish];
+  export type OutputTuple = [caseId: string, decryptedDiagnosis: bigint];
+  export interface OutputObject {
+    caseId: string;
+    decryptedDiagnosis: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MedicalCaseCreatedEvent {
+  export type InputTuple = [caseId: string, specialist: AddressLike];
+  export type OutputTuple = [caseId: string, specialist: string];
+  export interface OutputObject {
+    caseId: string;
+    specialist: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PublicDecryptionVerifiedEvent {
+  export type InputTuple = [
+    handlesList: BytesLike[],
+    abiEncodedCleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    handlesList: string[],
+    abiEncodedCleartexts: string
+  ];
+  export interface OutputObject {
+    handlesList: string[];
+    abiEncodedCleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SpecialistAssignedEvent {
+  export type InputTuple = [caseId: string, specialist: AddressLike];
+  export type OutputTuple = [caseId: string, specialist: string];
+  export interface OutputObject {
+    caseId: string;
+    specialist: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface SecondOp_FHE extends BaseContract {
+  connect(runner?: ContractRunner | null): SecondOp_FHE;
+  waitForDeployment(): Promise<this>;
+
+  interface: SecondOp_FHEInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  approveDisclosure: TypedContractMethod<
+    [caseId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  assignSpecialists: TypedContractMethod<
+    [caseId: string, specialists: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+
+  caseIds: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  createMedicalCase: TypedContractMethod<
+    [
+      caseId: string,
+      patientId: string,
+      encryptedDiagnosis: BytesLike,
+      inputProof: BytesLike,
+      caseIdentifier: BigNumberish,
+      medicalHistory: string,
+      disclosurePolicy: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  disclosurePolicies: TypedContractMethod<[arg0: string], [bigint], "view">;
+
+  getAllCaseIds: TypedContractMethod<[], [string[]], "view">;
+
+  getAssignedSpecialists: TypedContractMethod<
+    [caseId: string],
+    [string[]],
+    "view"
+  >;
+
+  getEncryptedDiagnosis: TypedContractMethod<
+    [caseId: string],
+    [string],
+    "view"
+  >;
+
+  getMedicalCase: TypedContractMethod<
+    [caseId: string],
+    [
+      [string, bigint, string, string, bigint, boolean, bigint] & {
+        patientId: string;
+        caseIdentifier: bigint;
+        medicalHistory: string;
+        specialist: string;
+        timestamp: bigint;
+        isVerified: boolean;
+        decryptedDiagnosis: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getPendingAssignmentRequests: TypedContractMethod<
+    [caseId: string],
+    [string[]],
+    "view"
+  >;
+
+  hasRequestedAssignment: TypedContractMethod<
+    [arg0: string, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isAssignedSpecialist: TypedContractMethod<
+    [arg0: string, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  isAvailable: TypedContractMethod<[], [boolean], "view">;
+
+  isDisclosed: TypedContractMethod<[arg0: string], [boolean], "view">;
+
+  medicalCases: TypedContractMethod<
+    [arg0: string],
+    [
+      [string, string, bigint, string, string, bigint, bigint, boolean] & {
+        patientId: string;
+        encryptedDiagnosis: string;
+        caseId: bigint;
+        medicalHistory: string;
+        specialist: string;
+        timestamp: bigint;
+        decryptedDiagnosis: bigint;
+        isVerified: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  requestAssignment: TypedContractMethod<
+    [caseId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  verifyDiagnosis: TypedContractMethod<
+    [
+      caseId: string,
+      abiEncodedClearDiagnosis: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "approveDisclosure"
+  ): TypedContractMethod<[caseId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "assignSpecialists"
+  ): TypedContractMethod<
+    [caseId: string, specialists: AddressLike[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "caseIds"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createMedicalCase"
+  ): TypedContractMethod<
+    [
+      caseId: string,
+      patientId: string,
+      encryptedDiagnosis: BytesLike,
+      inputProof: BytesLike,
+      caseIdentifier: BigNumberish,
+      medicalHistory: string,
+      disclosurePolicy: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "disclosurePolicies"
+  ): TypedContractMethod<[arg0: string], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getAllCaseIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getAssignedSpecialists"
+  ): TypedContractMethod<[caseId: string], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getEncryptedDiagnosis"
+  ): TypedContractMethod<[caseId: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getMedicalCase"
+  ): TypedContractMethod<
+    [caseId: string],
+    [
+      [string, bigint, string, string, bigint, boolean, bigint] & {
+        patientId: string;
+        caseIdentifier: bigint;
+        medicalHistory: string;
+        specialist: string;
+        timestamp: bigint;
+        isVerified: boolean;
+        decryptedDiagnosis: bigint;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPendingAssignmentRequests"
+  ): TypedContractMethod<[caseId: string], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "hasRequestedAssignment"
+  ): TypedContractMethod<[arg0: string, arg1: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isAssignedSpecialist"
+  ): TypedContractMethod<[arg0: string, arg1: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isAvailable"
+  ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "isDisclosed"
+  ): TypedContractMethod<[arg0: string], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "medicalCases"
+  ): TypedContractMethod<
+    [arg0: string],
+    [
+      [string, string, bigint, string, string, bigint, bigint, boolean] & {
+        patientId: string;
+        encryptedDiagnosis: string;
+        caseId: bigint;
+        medicalHistory: string;
+        specialist: string;
+        timestamp: bigint;
+        decryptedDiagnosis: bigint;
+        isVerified: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "requestAssignment"
+  ): TypedContractMethod<[caseId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "verifyDiagnosis"
+  ): TypedContractMethod<
+    [
+      caseId: string,
+      abiEncodedClearDiagnosis: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AssignmentRequested"
+  ): TypedContractEvent<
+    AssignmentRequestedEvent.InputTuple,
+    AssignmentRequestedEvent.OutputTuple,
+    AssignmentRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DiagnosisDisclosed"
+  ): TypedContractEvent<
+    DiagnosisDisclosedEvent.InputTuple,
+    DiagnosisDisclosedEvent.OutputTuple,
+    DiagnosisDisclosedEvent.OutputObject
+  >;
+  getEvent(
+    key: "DiagnosisVerified"
+  ): TypedContractEvent<
+    DiagnosisVerifiedEvent.InputTuple,
+    DiagnosisVerifiedEvent.OutputTuple,
+    DiagnosisVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MedicalCaseCreated"
+  ): TypedContractEvent<
+    MedicalCaseCreatedEvent.InputTuple,
+    MedicalCaseCreatedEvent.OutputTuple,
+    MedicalCaseCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PublicDecryptionVerified"
+  ): TypedContractEvent<
+    PublicDecryptionVerifiedEvent.InputTuple,
+    PublicDecryptionVerifiedEvent.OutputTuple,
+    PublicDecryptionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SpecialistAssigned"
+  ): TypedContractEvent<
+    SpecialistAssignedEvent.InputTuple,
+    SpecialistAssignedEvent.OutputTuple,
+    SpecialistAssignedEvent.OutputObject
+  >;
+
+  filters: {
+    "AssignmentRequested(string,address)": TypedContractEvent<
+      AssignmentRequestedEvent.InputTuple,
+      AssignmentRequestedEvent.OutputTuple,
+      AssignmentRequestedEvent.OutputObject
+    >;
+    AssignmentRequested: TypedContractEvent<
+      AssignmentRequestedEvent.InputTuple,
+      AssignmentRequestedEvent.OutputTuple,
+      AssignmentRequestedEvent.OutputObject
+    >;
+
+    "DiagnosisDisclosed(string,address)": TypedContractEvent<
+      DiagnosisDisclosedEvent.InputTuple,
+      DiagnosisDisclosedEvent.OutputTuple,
+      DiagnosisDisclosedEvent.OutputObject
+    >;
+    DiagnosisDisclosed: TypedContractEvent<
+      DiagnosisDisclosedEvent.InputTuple,
+      DiagnosisDisclosedEvent.OutputTuple,
+      DiagnosisDisclosedEvent.OutputObject
+    >;
+
+    "DiagnosisVerified(string,uint32)": TypedContractEvent<
+      DiagnosisVerifiedEvent.InputTuple,
+      DiagnosisVerifiedEvent.OutputTuple,
+      DiagnosisVerifiedEvent.OutputObject
+    >;
+    DiagnosisVerified: TypedContractEvent<
+      DiagnosisVerifiedEvent.InputTuple,
+      DiagnosisVerifiedEvent.OutputTuple,
+      DiagnosisVerifiedEvent.OutputObject
+    >;
+
+    "MedicalCaseCreated(string,address)": TypedContractEvent<
+      MedicalCaseCreatedEvent.InputTuple,
+      MedicalCaseCreatedEvent.OutputTuple,
+      MedicalCaseCreatedEvent.OutputObject
+    >;
+    MedicalCaseCreated: TypedContractEvent<
+      MedicalCaseCreatedEvent.InputTuple,
+      MedicalCaseCreatedEvent.OutputTuple,
+      MedicalCaseCreatedEvent.OutputObject
+    >;
+
+    "PublicDecryptionVerified(bytes32[],bytes)": TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+    PublicDecryptionVerified: TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+
+    "SpecialistAssigned(string,address)": TypedContractEvent<
+      SpecialistAssignedEvent.InputTuple,
+      SpecialistAssignedEvent.OutputTuple,
+      SpecialistAssignedEvent.OutputObject
+    >;
+    SpecialistAssigned: TypedContractEvent<
+      SpecialistAssignedEvent.InputTuple,
+      SpecialistAssignedEvent.OutputTuple,
+      SpecialistAssignedEvent.OutputObject
+    >;
+  };
+}
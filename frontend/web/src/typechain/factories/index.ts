@@ -0,0 +1,4 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { SecondOp_FHE__factory } from "./SecondOp_FHE__factory";
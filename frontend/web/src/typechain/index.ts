@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { SecondOp_FHE } from "./SecondOp_FHE";
+export * as factories from "./factories";
+export { SecondOp_FHE__factory } from "./factories/SecondOp_FHE__factory";
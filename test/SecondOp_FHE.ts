@@ -0,0 +1,431 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { SecondOp_FHE, SecondOp_FHE__factory } from "../types";
+import { expect } from "chai";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+  carol: HardhatEthersSigner;
+};
+
+const CASE_ID = "case-1";
+const PATIENT_ID = "patient-42";
+const CASE_IDENTIFIER = 7;
+const MEDICAL_HISTORY = "Hypertension, no known allergies";
+const DIAGNOSIS = 1234;
+
+// Mirrors SecondOp_FHE.DisclosurePolicy
+const DisclosurePolicy = { Private: 0, SpecialistOnly: 1, PublicAfterVerification: 2 } as const;
+type DisclosurePolicy = (typeof DisclosurePolicy)[keyof typeof DisclosurePolicy];
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("SecondOp_FHE")) as SecondOp_FHE__factory;
+  const secondOpContract = (await factory.deploy()) as SecondOp_FHE;
+  const secondOpContractAddress = await secondOpContract.getAddress();
+
+  return { secondOpContract, secondOpContractAddress };
+}
+
+describe("SecondOp_FHE", function () {
+  let signers: Signers;
+  let secondOpContract: SecondOp_FHE;
+  let secondOpContractAddress: string;
+
+  async function encryptDiagnosis(value: number, user: HardhatEthersSigner, contractAddress = secondOpContractAddress) {
+    return fhevm.createEncryptedInput(contractAddress, user.address).add32(value).encrypt();
+  }
+
+  async function createCase(
+    specialist: HardhatEthersSigner,
+    policy: DisclosurePolicy = DisclosurePolicy.SpecialistOnly,
+    caseId = CASE_ID,
+    diagnosis = DIAGNOSIS,
+  ) {
+    const encrypted = await encryptDiagnosis(diagnosis, specialist);
+    const tx = await secondOpContract
+      .connect(specialist)
+      .createMedicalCase(caseId, PATIENT_ID, encrypted.handles[0], encrypted.inputProof, CASE_IDENTIFIER, MEDICAL_HISTORY, policy);
+    await tx.wait();
+  }
+
+  async function assignAndDisclose(creator: HardhatEthersSigner, reviewer: HardhatEthersSigner, caseId = CASE_ID) {
+    let tx = await secondOpContract.connect(creator).assignSpecialists(caseId, [reviewer.address]);
+    await tx.wait();
+    tx = await secondOpContract.connect(reviewer).approveDisclosure(caseId);
+    await tx.wait();
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2], carol: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ secondOpContract, secondOpContractAddress } = await deployFixture());
+  });
+
+  describe("createMedicalCase", function () {
+    it("should store the case and emit MedicalCaseCreated", async function () {
+      const encrypted = await encryptDiagnosis(DIAGNOSIS, signers.alice);
+
+      await expect(
+        secondOpContract
+          .connect(signers.alice)
+          .createMedicalCase(
+            CASE_ID,
+            PATIENT_ID,
+            encrypted.handles[0],
+            encrypted.inputProof,
+            CASE_IDENTIFIER,
+            MEDICAL_HISTORY,
+            DisclosurePolicy.SpecialistOnly,
+          ),
+      )
+        .to.emit(secondOpContract, "MedicalCaseCreated")
+        .withArgs(CASE_ID, signers.alice.address);
+
+      const medicalCase = await secondOpContract.getMedicalCase(CASE_ID);
+      expect(medicalCase.patientId).to.eq(PATIENT_ID);
+      expect(medicalCase.caseIdentifier).to.eq(CASE_IDENTIFIER);
+      expect(medicalCase.medicalHistory).to.eq(MEDICAL_HISTORY);
+      expect(medicalCase.specialist).to.eq(signers.alice.address);
+      expect(medicalCase.isVerified).to.eq(false);
+      expect(medicalCase.decryptedDiagnosis).to.eq(0);
+
+      expect(await secondOpContract.disclosurePolicies(CASE_ID)).to.eq(DisclosurePolicy.SpecialistOnly);
+      expect(await secondOpContract.isDisclosed(CASE_ID)).to.eq(false);
+      expect(await secondOpContract.getAllCaseIds()).to.deep.eq([CASE_ID]);
+    });
+
+    it("should keep a public-after-verification diagnosis private until disclosure", async function () {
+      await createCase(signers.alice, DisclosurePolicy.PublicAfterVerification);
+
+      expect(await secondOpContract.disclosurePolicies(CASE_ID)).to.eq(DisclosurePolicy.PublicAfterVerification);
+      expect(await secondOpContract.isDisclosed(CASE_ID)).to.eq(false);
+    });
+
+    it("should reject a duplicate case id", async function () {
+      await createCase(signers.alice);
+
+      const encrypted = await encryptDiagnosis(DIAGNOSIS, signers.bob);
+      await expect(
+        secondOpContract
+          .connect(signers.bob)
+          .createMedicalCase(
+            CASE_ID,
+            "patient-43",
+            encrypted.handles[0],
+            encrypted.inputProof,
+            8,
+            MEDICAL_HISTORY,
+            DisclosurePolicy.SpecialistOnly,
+          ),
+      ).to.be.revertedWith("Medical case already exists");
+    });
+
+    it("should reject an input proof issued for another user", async function () {
+      const encrypted = await encryptDiagnosis(DIAGNOSIS, signers.bob);
+
+      await expect(
+        secondOpContract
+          .connect(signers.alice)
+          .createMedicalCase(
+            CASE_ID,
+            PATIENT_ID,
+            encrypted.handles[0],
+            encrypted.inputProof,
+            CASE_IDENTIFIER,
+            MEDICAL_HISTORY,
+            DisclosurePolicy.SpecialistOnly,
+          ),
+      ).to.be.reverted;
+    });
+
+    it("should reject an input proof issued for another contract", async function () {
+      const { secondOpContractAddress: otherContractAddress } = await deployFixture();
+      const encrypted = await encryptDiagnosis(DIAGNOSIS, signers.alice, otherContractAddress);
+
+      await expect(
+        secondOpContract
+          .connect(signers.alice)
+          .createMedicalCase(
+            CASE_ID,
+            PATIENT_ID,
+            encrypted.handles[0],
+            encrypted.inputProof,
+            CASE_IDENTIFIER,
+            MEDICAL_HISTORY,
+            DisclosurePolicy.SpecialistOnly,
+          ),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("getEncryptedDiagnosis", function () {
+    it("should return an initialized handle", async function () {
+      await createCase(signers.alice);
+
+      const encryptedDiagnosis = await secondOpContract.getEncryptedDiagnosis(CASE_ID);
+      expect(encryptedDiagnosis).to.not.eq(ethers.ZeroHash);
+    });
+
+    it("should revert for an unknown case", async function () {
+      await expect(secondOpContract.getEncryptedDiagnosis("missing")).to.be.revertedWith("Medical case does not exist");
+    });
+
+    it("should let the case creator user-decrypt the diagnosis", async function () {
+      await createCase(signers.alice);
+
+      const encryptedDiagnosis = await secondOpContract.getEncryptedDiagnosis(CASE_ID);
+      const clearDiagnosis = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedDiagnosis,
+        secondOpContractAddress,
+        signers.alice,
+      );
+      expect(clearDiagnosis).to.eq(DIAGNOSIS);
+    });
+  });
+
+  describe("assignSpecialists", function () {
+    beforeEach(async function () {
+      await createCase(signers.alice);
+    });
+
+    it("should grant each specialist access to the encrypted diagnosis", async function () {
+      await expect(secondOpContract.connect(signers.alice).assignSpecialists(CASE_ID, [signers.bob.address, signers.carol.address]))
+        .to.emit(secondOpContract, "SpecialistAssigned")
+        .withArgs(CASE_ID, signers.bob.address)
+        .and.to.emit(secondOpContract, "SpecialistAssigned")
+        .withArgs(CASE_ID, signers.carol.address);
+
+      expect(await secondOpContract.getAssignedSpecialists(CASE_ID)).to.deep.eq([signers.bob.address, signers.carol.address]);
+      expect(await secondOpContract.isAssignedSpecialist(CASE_ID, signers.bob.address)).to.eq(true);
+
+      const encryptedDiagnosis = await secondOpContract.getEncryptedDiagnosis(CASE_ID);
+      const clearDiagnosis = await fhevm.userDecryptEuint(
+        FhevmType.euint32,
+        encryptedDiagnosis,
+        secondOpContractAddress,
+        signers.carol,
+      );
+      expect(clearDiagnosis).to.eq(DIAGNOSIS);
+    });
+
+    it("should only let the case creator assign specialists", async function () {
+      await expect(
+        secondOpContract.connect(signers.bob).assignSpecialists(CASE_ID, [signers.bob.address]),
+      ).to.be.revertedWith("Only the case creator can assign specialists");
+    });
+
+    it("should reject an empty list, the zero address and the creator", async function () {
+      const creatorContract = secondOpContract.connect(signers.alice);
+
+      await expect(creatorContract.assignSpecialists(CASE_ID, [])).to.be.revertedWith("No specialists to assign");
+      await expect(creatorContract.assignSpecialists(CASE_ID, [ethers.ZeroAddress])).to.be.revertedWith(
+        "Invalid specialist address",
+      );
+      await expect(creatorContract.assignSpecialists(CASE_ID, [signers.alice.address])).to.be.revertedWith(
+        "Case creator already has access",
+      );
+    });
+
+    it("should reject a specialist who is already assigned", async function () {
+      const tx = await secondOpContract.connect(signers.alice).assignSpecialists(CASE_ID, [signers.bob.address]);
+      await tx.wait();
+
+      await expect(
+        secondOpContract.connect(signers.alice).assignSpecialists(CASE_ID, [signers.carol.address, signers.bob.address]),
+      ).to.be.revertedWith("Specialist already assigned");
+      expect(await secondOpContract.getAssignedSpecialists(CASE_ID)).to.deep.eq([signers.bob.address]);
+    });
+
+    it("should revert for an unknown case", async function () {
+      await expect(
+        secondOpContract.connect(signers.alice).assignSpecialists("missing", [signers.bob.address]),
+      ).to.be.revertedWith("Medical case does not exist");
+    });
+
+    it("should refuse to share a private case", async function () {
+      await createCase(signers.alice, DisclosurePolicy.Private, "case-private");
+
+      await expect(
+        secondOpContract.connect(signers.alice).assignSpecialists("case-private", [signers.bob.address]),
+      ).to.be.revertedWith("Case is private");
+    });
+  });
+
+  describe("requestAssignment", function () {
+    beforeEach(async function () {
+      await createCase(signers.alice);
+    });
+
+    it("should list the request until the creator grants it", async function () {
+      await expect(secondOpContract.connect(signers.bob).requestAssignment(CASE_ID))
+        .to.emit(secondOpContract, "AssignmentRequested")
+        .withArgs(CASE_ID, signers.bob.address);
+
+      expect(await secondOpContract.hasRequestedAssignment(CASE_ID, signers.bob.address)).to.eq(true);
+      expect(await secondOpContract.getPendingAssignmentRequests(CASE_ID)).to.deep.eq([signers.bob.address]);
+
+      const tx = await secondOpContract.connect(signers.alice).assignSpecialists(CASE_ID, [signers.bob.address]);
+      await tx.wait();
+
+      expect(await secondOpContract.getPendingAssignmentRequests(CASE_ID)).to.deep.eq([]);
+      expect(await secondOpContract.getAssignedSpecialists(CASE_ID)).to.deep.eq([signers.bob.address]);
+    });
+
+    it("should reject a second request from the same specialist", async function () {
+      const tx = await secondOpContract.connect(signers.bob).requestAssignment(CASE_ID);
+      await tx.wait();
+
+      await expect(secondOpContract.connect(signers.bob).requestAssignment(CASE_ID)).to.be.revertedWith(
+        "Assignment already requested",
+      );
+    });
+
+    it("should reject requests from the creator and from assigned specialists", async function () {
+      await expect(secondOpContract.connect(signers.alice).requestAssignment(CASE_ID)).to.be.revertedWith(
+        "Case creator already has access",
+      );
+
+      const tx = await secondOpContract.connect(signers.alice).assignSpecialists(CASE_ID, [signers.carol.address]);
+      await tx.wait();
+
+      await expect(secondOpContract.connect(signers.carol).requestAssignment(CASE_ID)).to.be.revertedWith(
+        "Specialist already assigned",
+      );
+    });
+
+    it("should revert for an unknown case", async function () {
+      await expect(secondOpContract.connect(signers.bob).requestAssignment("missing")).to.be.revertedWith(
+        "Medical case does not exist",
+      );
+    });
+
+    it("should reject requests for a private case", async function () {
+      await createCase(signers.alice, DisclosurePolicy.Private, "case-private");
+
+      await expect(secondOpContract.connect(signers.bob).requestAssignment("case-private")).to.be.revertedWith(
+        "Case is private",
+      );
+    });
+  });
+
+  describe("approveDisclosure", function () {
+    beforeEach(async function () {
+      await createCase(signers.alice, DisclosurePolicy.PublicAfterVerification);
+    });
+
+    it("should make the diagnosis publicly decryptable once an assigned specialist approves", async function () {
+      const tx = await secondOpContract.connect(signers.alice).assignSpecialists(CASE_ID, [signers.bob.address]);
+      await tx.wait();
+
+      await expect(secondOpContract.connect(signers.bob).approveDisclosure(CASE_ID))
+        .to.emit(secondOpContract, "DiagnosisDisclosed")
+        .withArgs(CASE_ID, signers.bob.address);
+      expect(await secondOpContract.isDisclosed(CASE_ID)).to.eq(true);
+
+      const encryptedDiagnosis = await secondOpContract.getEncryptedDiagnosis(CASE_ID);
+      const clearDiagnosis = await fhevm.publicDecryptEuint(FhevmType.euint32, encryptedDiagnosis);
+      expect(clearDiagnosis).to.eq(DIAGNOSIS);
+    });
+
+    it("should only accept approval from an assigned specialist", async function () {
+      await expect(secondOpContract.connect(signers.alice).approveDisclosure(CASE_ID)).to.be.revertedWith(
+        "Only an assigned specialist can approve disclosure",
+      );
+      await expect(secondOpContract.connect(signers.bob).approveDisclosure(CASE_ID)).to.be.revertedWith(
+        "Only an assigned specialist can approve disclosure",
+      );
+    });
+
+    it("should reject a second approval", async function () {
+      await assignAndDisclose(signers.alice, signers.bob);
+
+      await expect(secondOpContract.connect(signers.bob).approveDisclosure(CASE_ID)).to.be.revertedWith(
+        "Diagnosis already disclosed",
+      );
+    });
+
+    it("should refuse disclosure for specialist-only cases", async function () {
+      await createCase(signers.alice, DisclosurePolicy.SpecialistOnly, "case-specialists");
+      const tx = await secondOpContract.connect(signers.alice).assignSpecialists("case-specialists", [signers.bob.address]);
+      await tx.wait();
+
+      await expect(secondOpContract.connect(signers.bob).approveDisclosure("case-specialists")).to.be.revertedWith(
+        "Case does not allow public disclosure",
+      );
+    });
+  });
+
+  describe("verifyDiagnosis", function () {
+    beforeEach(async function () {
+      await createCase(signers.alice, DisclosurePolicy.PublicAfterVerification);
+      await assignAndDisclose(signers.alice, signers.bob);
+    });
+
+    it("should store the decrypted diagnosis and emit DiagnosisVerified", async function () {
+      const encryptedDiagnosis = await secondOpContract.getEncryptedDiagnosis(CASE_ID);
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([encryptedDiagnosis]);
+
+      await expect(secondOpContract.connect(signers.bob).verifyDiagnosis(CASE_ID, abiEncodedClearValues, decryptionProof))
+        .to.emit(secondOpContract, "DiagnosisVerified")
+        .withArgs(CASE_ID, DIAGNOSIS);
+
+      const medicalCase = await secondOpContract.getMedicalCase(CASE_ID);
+      expect(medicalCase.isVerified).to.eq(true);
+      expect(medicalCase.decryptedDiagnosis).to.eq(DIAGNOSIS);
+    });
+
+    it("should reject a proof that does not match the clear value", async function () {
+      const encryptedDiagnosis = await secondOpContract.getEncryptedDiagnosis(CASE_ID);
+      const { decryptionProof } = await fhevm.publicDecrypt([encryptedDiagnosis]);
+      const forgedClearValue = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [DIAGNOSIS + 1]);
+
+      // The KMS verifier recovers a signer that is not registered and reverts
+      await expect(secondOpContract.verifyDiagnosis(CASE_ID, forgedClearValue, decryptionProof)).to.be.reverted;
+
+      const medicalCase = await secondOpContract.getMedicalCase(CASE_ID);
+      expect(medicalCase.isVerified).to.eq(false);
+    });
+
+    it("should reject a second verification", async function () {
+      const encryptedDiagnosis = await secondOpContract.getEncryptedDiagnosis(CASE_ID);
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([encryptedDiagnosis]);
+
+      const tx = await secondOpContract.verifyDiagnosis(CASE_ID, abiEncodedClearValues, decryptionProof);
+      await tx.wait();
+
+      await expect(
+        secondOpContract.verifyDiagnosis(CASE_ID, abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWith("Diagnosis already verified");
+    });
+
+    it("should revert for an unknown case", async function () {
+      const encryptedDiagnosis = await secondOpContract.getEncryptedDiagnosis(CASE_ID);
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([encryptedDiagnosis]);
+
+      await expect(
+        secondOpContract.verifyDiagnosis("missing", abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWith("Medical case does not exist");
+    });
+
+    it("should reject a diagnosis that was never disclosed", async function () {
+      await createCase(signers.alice, DisclosurePolicy.SpecialistOnly, "case-specialists");
+
+      await expect(secondOpContract.verifyDiagnosis("case-specialists", "0x", "0x")).to.be.revertedWith(
+        "Diagnosis is not publicly decryptable",
+      );
+    });
+  });
+});
@@ -1,6 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export type { SecondOp_FHE } from "./SecondOp_FHE";
 export type { UniversalFHEAdapter } from "./UniversalFHEAdapter";
 
 
@@ -0,0 +1,610 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  SecondOp_FHE,
+  SecondOp_FHEInterface,
+} from "../../contracts/SecondOp_FHE";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "specialist",
+        type: "address",
+      },
+    ],
+    name: "AssignmentRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "specialist",
+        type: "address",
+      },
+    ],
+    name: "DiagnosisDisclosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "decryptedDiagnosis",
+        type: "uint32",
+      },
+    ],
+    name: "DiagnosisVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "specialist",
+        type: "address",
+      },
+    ],
+    name: "MedicalCaseCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "PublicDecryptionVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "specialist",
+        type: "address",
+      },
+    ],
+    name: "SpecialistAssigned",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+    ],
+    name: "approveDisclosure",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+      {
+        internalType: "address[]",
+        name: "specialists",
+        type: "address[]",
+      },
+    ],
+    name: "assignSpecialists",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "caseIds",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "patientId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedDiagnosis",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "caseIdentifier",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "medicalHistory",
+        type: "string",
+      },
+      {
+        internalType: "enum SecondOp_FHE.DisclosurePolicy",
+        name: "disclosurePolicy",
+        type: "uint8",
+      },
+    ],
+    name: "createMedicalCase",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "disclosurePolicies",
+    outputs: [
+      {
+        internalType: "enum SecondOp_FHE.DisclosurePolicy",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllCaseIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+    ],
+    name: "getAssignedSpecialists",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedDiagnosis",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+    ],
+    name: "getMedicalCase",
+    outputs: [
+      {
+        internalType: "string",
+        name: "patientId",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "caseIdentifier",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "medicalHistory",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "specialist",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isVerified",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "decryptedDiagnosis",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+    ],
+    name: "getPendingAssignmentRequests",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "hasRequestedAssignment",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isAssignedSpecialist",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isAvailable",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "isDisclosed",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "medicalCases",
+    outputs: [
+      {
+        internalType: "string",
+        name: "patientId",
+        type: "string",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedDiagnosis",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "caseId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "medicalHistory",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "specialist",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "decryptedDiagnosis",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isVerified",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+    ],
+    name: "requestAssignment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "caseId",
+        type: "string",
+      },
+      {
+        internalType: "bytes",
+        name: "abiEncodedClearDiagnosis",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "verifyDiagnosis",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60406080815234620001e257620000156200021a565b5046600103620000f357620000296200021a565b5062000034620001e6565b5f81525f60208201525f828201525b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970180548316918416919091179055918301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970280549093169116179055516120279081620002378239f35b4662aa36a7036200016357620001086200021a565b5062000113620001e6565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c127602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b46617a6903620001d257620001776200021a565b5062000182620001e6565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd24602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b516373cac13b60e01b8152600490fd5b5f80fd5b60405190606082016001600160401b038111838210176200020657604052565b634e487b7160e01b5f52604160045260245ffd5b62000224620001e6565b905f82525f60208301525f604083015256fe60806040526004361015610011575f80fd5b5f803560e01c8063150069db146116005780632ac5ad6d1461144257806345e3621314610ea65780634b19213714610de55780636bbc463c14610d875780637094207114610aa1578063833aed05146109af578063856c71dd1461099357806386747eea146109265780638927b0301461090357806398d690ba14610815578063a07faee2146107a2578063a0cf3c0314610762578063a2f5d386146105a4578063a8d7128e146104b6578063aea0eba214610461578063b2a4644f146103ff5763cebcf47b146100e0575f80fd5b346103fc5760403660031901126103fc576001600160401b036004358181116103f857610111903690600401611964565b91906024928335918383116103f457366023840112156103f45782600401359384116103f45760059236868660051b830101116103f0576040518383823761017261016b828681018b815260209485910301902054611ad1565b1515611c32565b60405194848487378585018981528690038201909520600401546001600160a01b0395908616330361039757604051928585853760ff868501946006865284818397030190205416916003926003811015610384576101d2901515611ca2565b8815610340578a5b8981106101e5578b80f35b8a81831b840101358981169081810361033c5781156102f857906102bc600193928f61022e8e60048f8f8e90826040519384928337810187815203019020015416851415611ce0565b8c8a8d82604051938492833781018c815203019020845f528a526102588b60405f20541615611d2c565b8c8a8d82604051938492833781018c815203019020845f528a528c8a8d60405f209389948560ff198254161790556102a3866040518685823785818881016002815203019020611d78565b8360405194859384378201908152030190200154611fa0565b8d7f4fb4e359b4e0d128d7afc44b0ebc732c1f455803d90ba09c1e1ea8d581867ee66040518c8c8237808d81015f81520390209180a3016101da565b60405162461bcd60e51b815260048101889052601a818f01527f496e76616c6964207370656369616c69737420616464726573730000000000006044820152606490fd5b8d80fd5b60405162461bcd60e51b8152600481018590526018818c01527f4e6f207370656369616c6973747320746f2061737369676e00000000000000006044820152606490fd5b634e487b7160e01b8c5260216004528a8cfd5b60405162461bcd60e51b815260048101839052602c818a01527f4f6e6c792074686520636173652063726561746f722063616e2061737369676e60448201526b207370656369616c6973747360a01b6064820152608490fd5b8680fd5b8580fd5b8280fd5b80fd5b50346103fc5760203660031901126103fc57600435906001600160401b0382116103fc57602060ff61044b826104383660048801611a25565b8160405193828580945193849201611bab565b8101600781520301902054166040519015158152f35b50346103fc57602061048a61047536611bf1565b92908160405193828580945193849201611bab565b810160038152030190209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b50346103fc5760203660031901126103fc576004356001600160401b0381116105a0576020610562926104f0610504933690600401611a25565b908260405194838680955193849201611bab565b82019081520301902061051681611b09565b9060ff60018201549160028101549061057a61053460038301611b09565b9460018060a01b03600484015416956006600585015494015494604051998a99610100808c528b0190611bcc565b9260208a015260408901528782036060890152611bcc565b93608086015260a085015263ffffffff811660c085015260201c16151560e08301520390f35b5080fd5b50346103fc576020806003193601126105a0576004356001600160401b0381116103f8576105d6903690600401611964565b90916105f761016b6040518486823783818681018981520301902054611ad1565b6040518284823781818481016004815203019020849385938254945b858110610701575061062486611c7e565b9561063260405197886119bf565b808752610641601f1991611c7e565b013685880137865b858110610662576040518061065e8982611a43565b0390f35b6040518284823782810190868160039384815203019020906106848387611abc565b90546001600160a01b0391831b1c81165f90815292885260409092205460ff16156106b4575b5050600101610649565b6106c183879b949b611abc565b9054911b1c16976106d182611e02565b9888518310156106ed578660019360051b8a010152905f6106aa565b634e487b7160e01b5f52603260045260245ffd5b6040518284823782810190868160039384815203019020906107238387611abc565b9054911b1c6001600160a01b03165f908152908652604090205460ff161561074e575b600101610613565b9561075a600191611e02565b969050610746565b50346103fc57602061077661047536611bf1565b810160058152030190209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b50346103fc5760203660031901126103fc576004356001600160401b0381116105a057602091826107d96001933690600401611964565b926107f961016b6040518685823785818881018681520301902054611ad1565b8360405194859384378201908152030190200154604051908152f35b50346103fc5760203660031901126103fc576004356001600160401b0381116105a05790602061084c6108cd933690600401611964565b9261086c61016b6040518685823785818881018681520301902054611ad1565b836040519485938437820190815203019020600281015463ffffffff60018060a01b036004840154169160058401546108e06006860154926108b960036108b289611b09565b9801611b09565b60405198899860e08a5260e08a0190611bcc565b9160208901528782036040890152611bcc565b936060860152608085015260ff8160201c16151560a08501521660c08301520390f35b50346103fc57806003193601126103fc57602061091e611f71565b604051908152f35b50346103fc5760203660031901126103fc576004356001600160401b0381116105a05761095e602061043860ff933690600401611a25565b81016006815203019020541660405190600381101561097f57602092508152f35b634e487b7160e01b83526021600452602483fd5b50346103fc57806003193601126103fc57602060405160018152f35b50346103fc57806003193601126103fc57600190600154916109d083611c7e565b916109de60405193846119bf565b8383526020928381019485600184527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf684915b838310610a7657505050506040519380850191818652518092526040850160408360051b8701019693905b838210610a495786880387f35b90919293948380610a65839a603f198b82030186528951611bcc565b999701959493919091019101610a3c565b90868089819b999594610a8c859c999a9c611b09565b81520192019201925097959796949396610a11565b5034610c7a57602080600319360112610c7a576004356001600160401b038111610c7a57610ad3903690600401611964565b9091610af461016b6040518486823783818681015f81520301902054611ad1565b60ff604051838582378281858101600681520301902054166003811015610d7357600203610d21576040518284823781818481016003815203019020335f52815260ff60405f20541615610cc25760ff60405183858237828185810160078152030190205416610c7e576040518284823781818481016007815203019020600160ff1982541617905560016040518385823782818581015f81520301902001549060405191610ba2836119a4565b60018352813681850137610bb583611c95565b527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b15610c7a57610c12925f9283604051809681958294637d6e912360e11b845260048401526024830190611e24565b03925af18015610c6f57610c5c575b50806040519283378101905f82528033920390207f3ee253deb8083d7de5785c511c22626f2db4ef9dc5ccb7e83b72ffac57ebbca08380a380f35b610c67919350611991565b5f915f610c21565b6040513d5f823e3d90fd5b5f80fd5b6064906040519062461bcd60e51b82526004820152601b60248201527f446961676e6f73697320616c726561647920646973636c6f73656400000000006044820152fd5b6084906040519062461bcd60e51b82526004820152603260248201527f4f6e6c7920616e2061737369676e6564207370656369616c6973742063616e20604482015271617070726f766520646973636c6f7375726560701b6064820152fd5b6084906040519062461bcd60e51b82526004820152602560248201527f4361736520646f6573206e6f7420616c6c6f77207075626c696320646973636c6044820152646f7375726560d81b6064820152fd5b634e487b7160e01b5f52602160045260245ffd5b34610c7a576020366003190112610c7a57600435600154811015610c7a57610dae90611a87565b610dd257610dbe61065e91611b09565b604051918291602083526020830190611bcc565b634e487b7160e01b5f525f60045260245ffd5b34610c7a57602080600319360112610c7a576004356001600160401b038111610c7a57610e1782913690600401611964565b9190610e3861016b6040518584823784818781015f81520301902054611ad1565b826040519384928337810160028152030190209060405190818184549182815201935f52815f20915f905b828210610e865761065e85610e7a818903826119bf565b60405191829182611a43565b83546001600160a01b031686529485019460019384019390910190610e63565b34610c7a5760e0366003190112610c7a576004356001600160401b038111610c7a57610ed6903690600401611964565b6024356001600160401b038111610c7a57610ef5903690600401611964565b6064356001600160401b038111610c7a57610f14903690600401611964565b9060a4356001600160401b038111610c7a57610f34903690600401611964565b919092600360c4351015610c7a57610f61604051888a82375f898201526020818a81010301902054611ad1565b6113fd57610f7b610f733683856119e0565b604435611e57565b156113b857610f8f91610f739136916119e0565b604051946101008601908682106001600160401b038311176112bb57610fd395610fbd9260405236916119e0565b85526020850152608435604085015236916119e0565b60608201523360808201524260a08201525f60c08201525f60e0820152604051828482376020818481015f81520301902081518051906001600160401b0382116112bb5761102b826110258554611ad1565b85611db3565b602090601f83116001146113545761105a92915f9183611349575b50508160011b915f199060031b1c19161790565b81555b602082015160018201556040820151600282015560608201518051906001600160401b0382116112bb576110a1826110986003860154611ad1565b60038601611db3565b602090601f83116001146112da5791806110d392600695945f926112cf5750508160011b915f199060031b1c19161790565b60038201555b6004810160018060a01b036080850151166bffffffffffffffffffffffff60a01b82541617905560a08301516005820155019063ffffffff60c08201511664ff0000000060e08454930151151560201b169164ffffffffff1916171790556111596001604051838582376020818581015f81520301902001543090611fa0565b61117c604051828482376001838201915f83526020813394030190200154611fa0565b60405181838237602081838101600681520301902060ff1981541660ff60c43516179055600154600160401b8110156112bb578060016111bf9201600155611a87565b610dd2576001600160401b0382116112bb576111e5826111df8354611ad1565b83611db3565b5f82601f81116001146112585780611211925f9161124d575b508160011b915f199060031b1c19161790565b90555b806040519283378101905f82528033920390207f5fb9e7831622ee5dc871223d0bcb99bb905686e2815235de69f857d50b3070c75f80a3005b9050850135866111fe565b50601f19831690825f528360205f20925f5b8181106112a0575010611287575b5050600182811b019055611214565b8401355f19600385901b60f8161c191690558380611278565b8784013585556001909401936020938401938793500161126a565b634e487b7160e01b5f52604160045260245ffd5b015190508880611046565b90600384015f5260205f20915f5b601f1985168110611331575091839160019360069695601f19811610611319575b505050811b0160038201556110d9565b01515f1960f88460031b161c19169055878080611309565b919260206001819286850151815501940192016112e8565b015190508780611046565b90601f19831691845f5260205f20925f5b8181106113a05750908460019594939210611388575b505050811b01815561105d565b01515f1960f88460031b161c1916905586808061137b565b92936020600181928786015181550195019301611365565b60405162461bcd60e51b815260206004820152601b60248201527f496e76616c696420656e6372797074656420646961676e6f73697300000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601b60248201527f4d65646963616c206361736520616c72656164792065786973747300000000006044820152606490fd5b34610c7a57602080600319360112610c7a576004356001600160401b038111610c7a57611473903690600401611964565b909161149461016b6040518486823783818681015f81520301902054611ad1565b60ff604051838582378281858101600681520301902054166003811015610d73576114c0901515611ca2565b6114ed604051838582375f84820190815281900383019020600401546001600160a01b0316331415611ce0565b6040518284823781818481016003815203019020335f52815261151760ff60405f20541615611d2c565b6040518284823781818481016005815203019020335f52815260ff60405f2054166115bc57611583906040518385823781818581016005815203019020335f52815260405f20600160ff1982541617905560405183858237838101916004835281339303019020611d78565b806040519283378101905f82528033920390207fe4f92d00c32f114c122eabbe030f6396bd37fd8dd74820462e46e14deb8b9a185f80a3005b6064906040519062461bcd60e51b82526004820152601c60248201527f41737369676e6d656e7420616c726561647920726571756573746564000000006044820152fd5b34610c7a57600319606036820112610c7a576001600160401b03600435818111610c7a57611632903690600401611964565b929091602435818111610c7a5761164d903690600401611a25565b90604435908111610c7a57611666903690600401611a25565b604051928585853761168a61016b858881015f815260209788910301902054611ad1565b60ff60066040518888823786818a81015f8152030190200154851c1661191f5760ff60405187878237858189810160078152030190205416156118cc578361177991604051936116d9856119a4565b6001855282368187013760016040518a8a823784818c81015f815203019020015461170386611c95565b5260018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416905f6040518096819582946378542ead60e01b84526060600485015261176a61175a606486018d611e24565b838682030160248701528d611bcc565b91848303016044850152611bcc565b03925af1908115610c6f575f91611896575b5015611884576117cd7fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a0916117da604051928392604084526040840190611e24565b8281038784015285611bcc565b0390a18181805181010312610c7a578101519263ffffffff8416809403610c7a577fa22723bd7313fa6340821e1eeda004d8b77dd472b1e9f88f3a0ddba90dad71779260066040518383823784818581015f815203019020018563ffffffff1982541617905560066040518383823784818581015f8152030190200164010000000064ff000000001982541617905581604051928392833781015f815203902092604051908152a2005b60405163cf6c44e960e01b8152600490fd5b90508381813d83116118c5575b6118ad81836119bf565b81010312610c7a57518015158103610c7a578661178b565b503d6118a3565b60405162461bcd60e51b815260048101859052602560248201527f446961676e6f736973206973206e6f74207075626c69636c79206465637279706044820152647461626c6560d81b6064820152608490fd5b60405162461bcd60e51b815260048101859052601a60248201527f446961676e6f73697320616c72656164792076657269666965640000000000006044820152606490fd5b9181601f84011215610c7a578235916001600160401b038311610c7a5760208381860195010111610c7a57565b6001600160401b0381116112bb57604052565b604081019081106001600160401b038211176112bb57604052565b90601f801991011681019081106001600160401b038211176112bb57604052565b9291926001600160401b0382116112bb5760405191611a09601f8201601f1916602001846119bf565b829481845281830111610c7a578281602093845f960137010152565b9080601f83011215610c7a57816020611a40933591016119e0565b90565b60209060206040818301928281528551809452019301915f5b828110611a6a575050505090565b83516001600160a01b031685529381019392810192600101611a5c565b6001548110156106ed5760015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf601905f90565b80548210156106ed575f5260205f2001905f90565b90600182811c92168015611aff575b6020831014611aeb57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691611ae0565b9060405191825f8254611b1b81611ad1565b908184526020946001916001811690815f14611b895750600114611b4b575b505050611b49925003836119bf565b565b5f90815285812095935091905b818310611b71575050611b4993508201015f8080611b3a565b85548884018501529485019487945091830191611b58565b92505050611b4994925060ff191682840152151560051b8201015f8080611b3a565b5f5b838110611bbc5750505f910152565b8181015183820152602001611bad565b90602091611be581518092818552858086019101611bab565b601f01601f1916010190565b6040600319820112610c7a57600435906001600160401b038211610c7a57611c1b91600401611a25565b906024356001600160a01b0381168103610c7a5790565b15611c3957565b60405162461bcd60e51b815260206004820152601b60248201527f4d65646963616c206361736520646f6573206e6f7420657869737400000000006044820152606490fd5b6001600160401b0381116112bb5760051b60200190565b8051156106ed5760200190565b15611ca957565b60405162461bcd60e51b815260206004820152600f60248201526e43617365206973207072697661746560881b6044820152606490fd5b15611ce757565b60405162461bcd60e51b815260206004820152601f60248201527f436173652063726561746f7220616c72656164792068617320616363657373006044820152606490fd5b15611d3357565b60405162461bcd60e51b815260206004820152601b60248201527f5370656369616c69737420616c72656164792061737369676e656400000000006044820152606490fd5b8054600160401b8110156112bb57611d9591600182018155611abc565b60018060a09493941b038084549260031b9316831b921b1916179055565b601f8211611dc057505050565b5f5260205f20906020601f840160051c83019310611df8575b601f0160051c01905b818110611ded575050565b5f8155600101611de2565b9091508190611dd9565b5f198114611e105760010190565b634e487b7160e01b5f52601160045260245ffd5b9081518082526020808093019301915f5b828110611e43575050505090565b835185529381019392810192600101611e35565b6020611eba9260018060a01b0392837f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416905f60405180978195829463045fc19560e11b84526004840152336024840152608060448401526084830190611bcc565b6004606483015203925af1918215610c6f575f92611f3d575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b15610c7a57604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af18015610c6f57611f34575090565b611a4090611991565b9091506020813d602011611f69575b81611f59602093836119bf565b81010312610c7a5751905f611ed3565b3d9150611f4c565b46600103611f7e57600190565b4662aa36a703611f8e5761271190565b617a694614611f9b575f90565b5f1990565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b15610c7a57604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af18015610c6f576120115750565b611b499061199156fea164736f6c6343000818000a";
+
+type SecondOp_FHEConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: SecondOp_FHEConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class SecondOp_FHE__factory extends ContractFactory {
+  constructor(...args: SecondOp_FHEConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      SecondOp_FHE & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): SecondOp_FHE__factory {
+    return super.connect(runner) as SecondOp_FHE__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): SecondOp_FHEInterface {
+    return new Interface(_abi) as SecondOp_FHEInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): SecondOp_FHE {
+    return new Contract(address, _abi, runner) as unknown as SecondOp_FHE;
+  }
+}
@@ -1,6 +1,7 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export { SecondOp_FHE__factory } from "./SecondOp_FHE__factory";
 export { UniversalFHEAdapter__factory } from "./UniversalFHEAdapter__factory";
 
 
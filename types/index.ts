@@ -20,6 +20,8 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { SecondOp_FHE } from "./contracts/SecondOp_FHE";
+export { SecondOp_FHE__factory } from "./factories/contracts/SecondOp_FHE__factory";
 export type { UniversalFHEAdapter } from "./contracts/UniversalFHEAdapter";
 export { UniversalFHEAdapter__factory } from "./factories/contracts/UniversalFHEAdapter__factory";
 